@@ -1,15 +1,87 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Layers, Upload, Settings2, Download, Plus, Trash2, ArrowRight, RefreshCw, Image as ImageIcon, X, Sliders, Eraser, Droplet, Zap, Paintbrush, Ban, ShieldCheck, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
-import { SeparationMode, SpotColor, ChannelResult, ImageAdjustments, BgRemoveMode } from './types';
-import { processCMYK, processSpotColors, processWhiteBase, loadImage, applyAttributes, extractDominantColors } from './services/imageProcessor';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Layers, Upload, Settings2, Download, Plus, Trash2, ArrowRight, RefreshCw, Image as ImageIcon, X, Sliders, Eraser, Droplet, Zap, Paintbrush, Ban, ShieldCheck, ZoomIn, ZoomOut, Maximize, FileArchive, PenTool, CircleStop, Lock, Unlock, Save, FolderOpen, Undo2, Redo2, WandSparkles, TriangleAlert } from 'lucide-react';
+import { SeparationMode, SpotColor, ChannelResult, ImageAdjustments, BgRemoveMode, HalftoneSettings, ProcessingConfig, SeparationProgress, SeparationStage, FilmLayoutSettings, TraceSettings, ColorMetric, IndexSettings, SimProcessSettings, CmykSettings, IccProfile, UnderbaseSettings, GarmentKnockout, TrapSettings, TrapUnit, InkCostSettings, PrintSize, SeparationJob, JobOutputSettings, ProjectSummary, Ink } from './types';
+import { loadImage, loadImagePixels, loadThumbnailPixels, renderThumbnail } from './services/imageProcessor';
+import { MAX_FILM_DPI, MAX_PRINT_WIDTH_CM, MIN_FILM_DPI, filmPng, filmSize, imagePpi, lazyFilms, previewFilm } from './services/filmOutput';
+import { writePsd } from './services/psdWriter';
+import { writeMultiPageTiff } from './services/tiffWriter';
+import { traceDensity } from './services/vectorTracer';
+import { writeSvg } from './services/svgWriter';
+import { writeSeparationPdf } from './services/pdfWriter';
+import { downloadBlob, safeFileName } from './services/download';
+import { writeZip } from './services/zipWriter';
+import { buildManifest, channelFileName, manifestToText } from './services/jobManifest';
+import { DEFAULT_LPI, MIN_ANGLE_SEPARATION, angleConflicts } from './services/screenAngles';
+import { parseIccProfile } from './services/iccProfile';
+import { estimateInk, measureCoverage } from './services/inkStats';
+import { JOB_FILE_EXTENSION, readJobFile, writeJobFile } from './services/jobFile';
+import { loadInkLibrary, mergeInks, saveInkLibrary } from './services/inkLibrary';
+import { SwatchFormat, readSwatchFile, writeSwatchFile } from './services/swatchFiles';
+import { SelectionBounds, fillSelection, selectByColor, selectionBounds, unionSelection } from './services/magicWand';
+import { dilate } from './services/morphology';
+import { getDeltaE } from './services/colorScience';
+import { createHistory, HistoryEntry, maskClearEntry, maskRegionEntry } from './services/history';
+import { deleteProject, listProjects, loadProject, saveProject } from './services/projectLibrary';
+import { MAX_PALETTE_SIZE, PaletteCandidate, paletteSamples, recommendedCandidate, solvePaletteRange } from './services/paletteSolver';
+import { SeparationTask, isCancelled, renderAdjustedPreview, startSeparation } from './services/separationClient';
 import { Button } from './components/Button';
+import { CompositePreview } from './components/CompositePreview';
+import { CmykSettingsPanel } from './components/CmykSettingsPanel';
+import { UnderbaseSettingsPanel } from './components/UnderbaseSettingsPanel';
+import { GarmentPanel } from './components/GarmentPanel';
+import { FilmOutputPanel } from './components/FilmOutputPanel';
+import { ChannelThumbnail } from './components/ChannelThumbnail';
+import { InkCostPanel } from './components/InkCostPanel';
+import { PalettePanel } from './components/PalettePanel';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { InkLibraryPanel } from './components/InkLibraryPanel';
 
-// Default spot colors example
-const DEFAULT_SPOTS: SpotColor[] = [
-  { id: '1', name: 'Ярко-Зеленый', color: '#00ff00', threshold: 50 },
-  { id: '2', name: 'Оранжевый', color: '#ff8800', threshold: 50 },
-  { id: '3', name: 'Фиолетовый', color: '#9d00ff', threshold: 50 },
-];
+const STAGE_LABELS: Record<SeparationStage, string> = {
+  adjust: 'Коррекция',
+  separate: 'Разделение',
+  trap: 'Треппинг',
+  underbase: 'Подложка'
+};
+
+// Default spot matching tolerance, in ΔE
+const DEFAULT_SPOT_TOLERANCE = 25;
+
+const DEFAULT_INDEX: IndexSettings = {
+  antiAlias: true,
+  overprintTolerance: 0
+};
+
+const DEFAULT_SIM_PROCESS: SimProcessSettings = {
+  highlightChoke: 1
+};
+
+const DEFAULT_UNDERBASE: UnderbaseSettings = {
+  choke: 1,
+  darkPullback: 40,
+  maxDensity: 100,
+  highlightWhite: false,
+  highlightThreshold: 85
+};
+
+const DEFAULT_TRAP: TrapSettings = {
+  enabled: false,
+  width: 2,
+  unit: 'px'
+};
+
+const DEFAULT_KNOCKOUT: GarmentKnockout = {
+  enabled: false,
+  tolerance: 10,
+  softness: 10
+};
+
+const DEFAULT_CMYK: CmykSettings = {
+  blackGeneration: 'gcr',
+  blackAmount: 70,
+  blackStart: 20,
+  totalInkLimit: 300,
+  renderingIntent: 0
+};
 
 const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
   brightness: 0,
@@ -21,8 +93,110 @@ const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
   bgThreshold: 20
 };
 
+const DEFAULT_HALFTONE: HalftoneSettings = {
+  method: 'none',
+  dotShape: 'round',
+  dpi: 720
+};
+
+const DEFAULT_FILM_LAYOUT: FilmLayoutSettings = {
+  enabled: false,
+  marginMm: 15,
+  registrationMarks: true,
+  cropMarks: true,
+  stepWedge: true,
+  label: true
+};
+
+const DEFAULT_TRACE: TraceSettings = {
+  threshold: 128,
+  smoothing: 1,
+  minArea: 4
+};
+
+const DEFAULT_INK_COST: InkCostSettings = {
+  pricePerKg: 2500,
+  mesh: 0
+};
+
+const DEFAULT_GARMENT_COLOR = '#111111';
+const DEFAULT_PRINT_WIDTH_CM = 30;
+
+// Jobs that don't print against the shirt (no white, knockout or simulated process) preview on white
+const compositeGarment = (config: ProcessingConfig): string =>
+  config.mode === SeparationMode.SIMULATED_PROCESS || config.includeWhiteBase || config.knockout.enabled
+    ? config.garmentColor
+    : '#ffffff';
+
+/**
+ * Fills in whatever an opened job lacks (older or hand-edited files) from the
+ * defaults, so a partial file never reaches the session half-applied.
+ */
+const completeJob = (job: SeparationJob): SeparationJob => {
+  const config: Partial<ProcessingConfig> = job.config ?? {};
+  const output: Partial<JobOutputSettings> = job.output ?? {};
+  return {
+    ...job,
+    config: {
+      mode: config.mode ?? SeparationMode.CMYK,
+      spotColors: Array.isArray(config.spotColors) ? config.spotColors : [],
+      includeWhiteBase: !!config.includeWhiteBase,
+      underbase: { ...DEFAULT_UNDERBASE, ...config.underbase },
+      adjustments: { ...DEFAULT_ADJUSTMENTS, ...config.adjustments },
+      garmentColor: config.garmentColor ?? DEFAULT_GARMENT_COLOR,
+      knockout: { ...DEFAULT_KNOCKOUT, ...config.knockout },
+      lpi: config.lpi ?? DEFAULT_LPI,
+      printWidthCm: Math.min(MAX_PRINT_WIDTH_CM, Math.max(1, config.printWidthCm ?? DEFAULT_PRINT_WIDTH_CM)),
+      colorMetric: config.colorMetric ?? 'de2000',
+      index: { ...DEFAULT_INDEX, ...config.index },
+      trap: { ...DEFAULT_TRAP, ...config.trap },
+      simProcess: { ...DEFAULT_SIM_PROCESS, ...config.simProcess },
+      cmyk: { ...DEFAULT_CMYK, ...config.cmyk },
+      iccProfile: config.iccProfile ?? null
+    },
+    output: {
+      halftone: { ...DEFAULT_HALFTONE, ...output.halftone, dpi: Math.min(MAX_FILM_DPI, Math.max(MIN_FILM_DPI, output.halftone?.dpi ?? DEFAULT_HALFTONE.dpi)) },
+      filmLayout: { ...DEFAULT_FILM_LAYOUT, ...output.filmLayout },
+      trace: { ...DEFAULT_TRACE, ...output.trace },
+      inkCost: { ...DEFAULT_INK_COST, ...output.inkCost }
+    }
+  };
+};
+
+// Memory undo may hold for mask snapshots
+const HISTORY_BUDGET_BYTES = 256 * 1024 * 1024;
+// Quiet time after which slider and spot edits become one undo step
+const SETTINGS_HISTORY_DELAY = 400;
+
 type BrushType = 'remove' | 'keep';
 
+type MaskTool = 'brush' | 'wand';
+
+interface WandSettings {
+  tolerance: number;   // ΔE from the clicked color, per the spot color metric
+  contiguous: boolean; // Only the connected region, otherwise every similar pixel
+  grow: number;        // Pixels the selection is expanded by, to catch halos
+}
+
+const DEFAULT_WAND: WandSettings = {
+  tolerance: 15,
+  contiguous: true,
+  grow: 0
+};
+
+// Settings covered by undo besides the mask
+interface UndoableSettings {
+  adjustments: ImageAdjustments;
+  spotColors: SpotColor[];
+}
+
+// Initial spot list, shared so the undo history sees the same array as the state
+const NO_SPOTS: SpotColor[] = [];
+
+type ResultView = 'films' | 'composite';
+
+type DocumentFormat = 'psd' | 'tiff' | 'svg' | 'pdf';
+
 function App() {
   // State
   const [step, setStep] = useState<1 | 2 | 3>(1);
@@ -30,13 +204,48 @@ function App() {
   const [originalImageSrc, setOriginalImageSrc] = useState<string | null>(null); // Keeps the raw upload
   const [processedPreview, setProcessedPreview] = useState<string | null>(null); // Shows the edited version
   const [mode, setMode] = useState<SeparationMode>(SeparationMode.CMYK);
-  const [spotColors, setSpotColors] = useState<SpotColor[]>(DEFAULT_SPOTS);
-  const [suggestedColors, setSuggestedColors] = useState<string[]>([]);
+  const [spotColors, setSpotColors] = useState<SpotColor[]>(NO_SPOTS);
+  const [inks, setInks] = useState<Ink[]>(loadInkLibrary);
+  const [lockedSpotIds, setLockedSpotIds] = useState<string[]>([]);
+  const [paletteCandidates, setPaletteCandidates] = useState<PaletteCandidate[]>([]);
+  const [paletteCount, setPaletteCount] = useState(0);
+  const [isSolvingPalette, setIsSolvingPalette] = useState(false);
   const [results, setResults] = useState<ChannelResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<SeparationProgress | null>(null);
+  const separationRef = useRef<SeparationTask | null>(null);
   const [newColorHex, setNewColorHex] = useState('#000000');
   const [includeWhiteBase, setIncludeWhiteBase] = useState(false);
+  const [underbase, setUnderbase] = useState<UnderbaseSettings>(DEFAULT_UNDERBASE);
+  const [colorMetric, setColorMetric] = useState<ColorMetric>('de2000');
+  const [indexSettings, setIndexSettings] = useState<IndexSettings>(DEFAULT_INDEX);
+  const [trap, setTrap] = useState<TrapSettings>(DEFAULT_TRAP);
+  const [simProcess, setSimProcess] = useState<SimProcessSettings>(DEFAULT_SIM_PROCESS);
+  const [cmykSettings, setCmykSettings] = useState<CmykSettings>(DEFAULT_CMYK);
+  const [iccProfiles, setIccProfiles] = useState<IccProfile[]>([]);
+  const [iccProfile, setIccProfile] = useState<IccProfile | null>(null);
   const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [garmentColor, setGarmentColor] = useState(DEFAULT_GARMENT_COLOR);
+  const [knockout, setKnockout] = useState<GarmentKnockout>(DEFAULT_KNOCKOUT);
+  const [printWidthCm, setPrintWidthCm] = useState(DEFAULT_PRINT_WIDTH_CM);
+
+  // Film Output State
+  const [halftone, setHalftone] = useState<HalftoneSettings>(DEFAULT_HALFTONE);
+  const [lpi, setLpi] = useState(DEFAULT_LPI);
+  const [filmLayout, setFilmLayout] = useState<FilmLayoutSettings>(DEFAULT_FILM_LAYOUT);
+  const [jobName, setJobName] = useState('');
+  const jobNameRef = useRef(jobName);
+  jobNameRef.current = jobName;
+  const [traceSettings, setTraceSettings] = useState<TraceSettings>(DEFAULT_TRACE);
+  const [inkCost, setInkCost] = useState<InkCostSettings>(DEFAULT_INK_COST);
+  const [filmPreviews, setFilmPreviews] = useState<ChannelResult[]>([]); // Downsampled; empty while films equal the separations
+  const [isRenderingFilms, setIsRenderingFilms] = useState(false);
+  const [resultView, setResultView] = useState<ResultView>('films');
+  const [isExporting, setIsExporting] = useState(false);
+  const [processedConfig, setProcessedConfig] = useState<ProcessingConfig | null>(null); // Settings the results were made with
+  const resultPrintWidthCm = processedConfig?.printWidthCm ?? printWidthCm;
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const projectId = useRef<string | null>(null); // Library entry the open job is saved to
   
   // Masking State
   const [isMaskingMode, setIsMaskingMode] = useState(false);
@@ -47,37 +256,61 @@ function App() {
   const [isPanning, setIsPanning] = useState(false);
   const [cursorPos, setCursorPos] = useState<{x: number, y: number} | null>(null);
   const [visualBrushSize, setVisualBrushSize] = useState(20);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [wand, setWand] = useState<WandSettings>(DEFAULT_WAND);
+  const [selection, setSelection] = useState<Uint8ClampedArray | null>(null); // Magic wand pick, 255 = selected
 
   const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const maskRevision = useRef(0); // Bumped on every mask edit so the worker re-reads it
+  const pendingMask = useRef<string | null>(null); // Mask of an opened job, drawn once the canvas is sized
+  const separatedMask = useRef<string | null>(null); // Mask the results were made with, kept for saving from Step 3
+  const previewRequest = useRef(0);
+  const previewUrl = useRef<string | null>(null);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const isDrawing = useRef(false);
+  const maskBefore = useRef<HTMLCanvasElement | null>(null); // Mask as it was when the current edit began
+  const strokeBounds = useRef<SelectionBounds | null>(null);
+  const selectionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const sourcePixels = useRef<{ src: string; pixels: ImageData } | null>(null); // Decoded upload the wand samples
+
+  const history = useRef(createHistory(HISTORY_BUDGET_BYTES));
+  const [, setHistoryTick] = useState(0); // Re-renders the undo/redo buttons
+  const committedSettings = useRef<UndoableSettings>({ adjustments: DEFAULT_ADJUSTMENTS, spotColors: NO_SPOTS });
+  const pendingSettings = useRef<(() => void) | null>(null); // Records a settings edit still being made
+  const updatePreviewRef = useRef<() => void>(() => {});
   const lastPanPoint = useRef({ x: 0, y: 0 });
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobInputRef = useRef<HTMLInputElement>(null);
 
   // Handlers
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       setImageFile(file);
+      setJobName(file.name.replace(/\.[^.]+$/, ''));
       const reader = new FileReader();
       reader.onload = (ev) => {
         if (ev.target?.result) {
           const src = ev.target.result as string;
           setOriginalImageSrc(src);
           setProcessedPreview(src); // Initially same as original
+          sourcePixels.current = null;
           setAdjustments(DEFAULT_ADJUSTMENTS);
+          resetHistory({ adjustments: DEFAULT_ADJUSTMENTS, spotColors });
+          setSelection(null);
           setZoom(1);
           setPan({ x: 0, y: 0 });
           
-          // Extract suggested colors
-          extractDominantColors(src).then(colors => setSuggestedColors(colors));
+          // Propose spot palettes for the new image
+          handleSolvePalette(src, []);
 
           // Clear mask canvas if it exists
           if (maskCanvasRef.current) {
             const ctx = maskCanvasRef.current.getContext('2d');
             ctx?.clearRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
           }
+          maskRevision.current++;
           
           setStep(2);
         }
@@ -88,14 +321,21 @@ function App() {
 
   const updatePreview = useCallback(async () => {
     if (!originalImageSrc) return;
+    const request = ++previewRequest.current;
     try {
-      const img = await loadImage(originalImageSrc);
-      const canvas = applyAttributes(img, adjustments, maskCanvasRef.current);
-      setProcessedPreview(canvas.toDataURL());
+      const blob = await renderAdjustedPreview(originalImageSrc, maskCanvasRef.current, maskRevision.current, { adjustments, garmentColor, knockout, colorMetric });
+      if (request !== previewRequest.current) return; // A newer preview is on its way
+      if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+      previewUrl.current = URL.createObjectURL(blob);
+      setProcessedPreview(previewUrl.current);
     } catch (e) {
-      console.error("Preview update failed", e);
+      if (!isCancelled(e)) console.error("Preview update failed", e);
     }
-  }, [originalImageSrc, adjustments]);
+  }, [originalImageSrc, adjustments, garmentColor, knockout, colorMetric]);
+
+  useEffect(() => {
+    updatePreviewRef.current = updatePreview;
+  }, [updatePreview]);
 
   // Live preview effect
   useEffect(() => {
@@ -106,18 +346,74 @@ function App() {
     return () => clearTimeout(timer);
   }, [updatePreview]);
 
+  useEffect(() => saveInkLibrary(inks), [inks]);
+
+  // Refresh the project library whenever the start screen shows
+  useEffect(() => {
+    if (step !== 1) return;
+    listProjects().then(setProjects).catch(e => console.error("Project library unavailable", e));
+  }, [step]);
+
   // Initialize mask canvas when image loads
   useEffect(() => {
     if (step === 2 && originalImageSrc) {
-       loadImage(originalImageSrc).then(img => {
-          if (maskCanvasRef.current) {
-            maskCanvasRef.current.width = img.width;
-            maskCanvasRef.current.height = img.height;
+       loadImage(originalImageSrc).then(async img => {
+          if (!maskCanvasRef.current) return;
+          maskCanvasRef.current.width = img.width;
+          maskCanvasRef.current.height = img.height;
+          // Sizing cleared the canvas, so the worker's copy of the mask is stale either way
+          maskRevision.current++;
+
+          const mask = pendingMask.current;
+          pendingMask.current = null;
+          if (mask) {
+            maskCanvasRef.current.getContext('2d')?.drawImage(await loadImage(mask), 0, 0);
+            maskRevision.current++;
+            updatePreview();
           }
        });
     }
   }, [step, originalImageSrc]);
 
+  // Preview the films whenever results, screening or layout settings change.
+  // Previews are rendered at screen size; exports render the films again at print size.
+  useEffect(() => {
+    if (step !== 3 || results.length === 0) return;
+    if (halftone.method === 'none' && !filmLayout.enabled) {
+      setFilmPreviews([]);
+      setIsRenderingFilms(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsRenderingFilms(true);
+    // The caption takes the job name as it is when rendering; typing it doesn't re-screen
+    const label = { jobName: jobNameRef.current, total: results.length };
+
+    // Debounce so typing in numeric fields doesn't re-screen every keystroke
+    const timer = setTimeout(async () => {
+      const rendered: ChannelResult[] = [];
+      try {
+        for (let idx = 0; idx < results.length; idx++) {
+          // Yield between films so a superseded render stops early
+          await new Promise(resolve => setTimeout(resolve));
+          if (cancelled) return;
+          rendered.push(previewFilm(results[idx], halftone, filmLayout, resultPrintWidthCm, { ...label, order: idx + 1 }));
+        }
+        setFilmPreviews(rendered);
+      } catch (e) {
+        console.error("Film rendering failed", e);
+      } finally {
+        if (!cancelled) setIsRenderingFilms(false);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [step, results, halftone, filmLayout, resultPrintWidthCm]);
+
   // Handle Zoom change
   const handleZoomIn = () => setZoom(prev => Math.min(prev + 0.5, 4));
   const handleZoomOut = () => setZoom(prev => Math.max(prev - 0.5, 0.5));
@@ -206,6 +502,12 @@ function App() {
 
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     if (!isMaskingMode || !maskCanvasRef.current) return;
+    if (maskTool === 'wand') {
+      handleWandClick(e);
+      return;
+    }
+    beginMaskEdit();
+    strokeBounds.current = null;
     isDrawing.current = true;
     draw(e);
   };
@@ -213,6 +515,8 @@ function App() {
   const stopDrawing = () => {
     if (isDrawing.current) {
       isDrawing.current = false;
+      if (strokeBounds.current) commitMaskEdit(strokeBounds.current);
+      maskRevision.current++;
       updatePreview(); // Update processed preview on mouse up
     }
   };
@@ -227,6 +531,13 @@ function App() {
 
     const { x, y } = getCoordinates(e, maskCanvasRef.current);
 
+    // Area the stroke touched, for its undo snapshot
+    const r = brushSize / 2 + 1;
+    const b = strokeBounds.current;
+    strokeBounds.current = b
+      ? { x0: Math.min(b.x0, x - r), y0: Math.min(b.y0, y - r), x1: Math.max(b.x1, x + r), y1: Math.max(b.y1, y + r) }
+      : { x0: x - r, y0: y - r, x1: x + r, y1: y + r };
+
     ctx.globalCompositeOperation = 'source-over';
     ctx.beginPath();
     ctx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
@@ -242,88 +553,569 @@ function App() {
 
   const clearMask = () => {
     if (maskCanvasRef.current) {
-      const ctx = maskCanvasRef.current.getContext('2d');
-      ctx?.clearRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-      updatePreview();
+      const entry = maskClearEntry(() => maskCanvasRef.current, onMaskChange);
+      entry.redo();
+      pushHistory(entry);
     }
   };
 
   // --- End Drawing Logic ---
 
+  // --- Magic Wand ---
+  const getSourcePixels = async (src: string): Promise<ImageData> => {
+    if (sourcePixels.current?.src !== src) {
+      sourcePixels.current = { src, pixels: await loadImagePixels(src) };
+    }
+    return sourcePixels.current.pixels;
+  };
+
+  // Selects by color from the clicked pixel; Shift adds to the current selection
+  const handleWandClick = async (e: React.MouseEvent | React.TouchEvent) => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !originalImageSrc) return;
+    const { x, y } = getCoordinates(e, canvas);
+    const additive = e.shiftKey;
+
+    try {
+      const { data, width, height } = await getSourcePixels(originalImageSrc);
+      const picked = selectByColor(data, width, height, Math.floor(x), Math.floor(y), wand.tolerance, wand.contiguous, getDeltaE(colorMetric));
+      setSelection(prev => (additive && prev?.length === picked.length ? unionSelection(new Uint8ClampedArray(prev), picked) : picked));
+    } catch (err) {
+      console.error("Magic wand failed", err);
+    }
+  };
+
+  // Paints the (grown) selection into the mask as one undoable edit
+  const commitSelection = (kind: BrushType) => {
+    const mask = maskCanvasRef.current;
+    const ctx = mask?.getContext('2d');
+    if (!selection || !mask || !ctx) return;
+
+    const { width, height } = mask;
+    const grown = dilate(selection, width, height, wand.grow);
+    const bounds = selectionBounds(grown, width, height);
+    if (bounds) {
+      beginMaskEdit();
+      const region = ctx.getImageData(bounds.x0, bounds.y0, bounds.x1 - bounds.x0, bounds.y1 - bounds.y0);
+      fillSelection(region.data, grown, width, bounds, kind === 'remove' ? [255, 0, 0, 255] : [0, 255, 0, 255]);
+      ctx.putImageData(region, bounds.x0, bounds.y0);
+      commitMaskEdit(bounds);
+      maskRevision.current++;
+      updatePreview();
+    }
+    setSelection(null);
+  };
+
+  // Shows the selection over the preview; debounced since growing a large selection is slow
+  useEffect(() => {
+    const canvas = selectionCanvasRef.current;
+    const mask = maskCanvasRef.current;
+    if (!canvas || !mask) return;
+
+    const timer = setTimeout(() => {
+      const { width, height } = mask;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !selection || selection.length !== width * height) return;
+
+      const overlay = ctx.createImageData(width, height);
+      const all = { x0: 0, y0: 0, x1: width, y1: height };
+      fillSelection(overlay.data, dilate(selection, width, height, wand.grow), width, all, [0, 200, 255, 255]);
+      ctx.putImageData(overlay, 0, 0);
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [selection, wand.grow]);
+
+  // --- End Magic Wand ---
+
+  // --- Undo History ---
+  const pushHistory = (entry: HistoryEntry) => {
+    history.current.push(entry);
+    setHistoryTick(t => t + 1);
+  };
+
+  // Starts a fresh history from the given settings (new image, reset, opened job)
+  const resetHistory = (settings: UndoableSettings) => {
+    pendingSettings.current = null;
+    committedSettings.current = settings;
+    history.current.clear();
+    setHistoryTick(t => t + 1);
+  };
+
+  // Copies the mask aside so the edit about to start can be undone
+  const beginMaskEdit = () => {
+    const mask = maskCanvasRef.current;
+    if (!mask) return;
+    const copy = maskBefore.current ?? document.createElement('canvas');
+    copy.width = mask.width;
+    copy.height = mask.height;
+    copy.getContext('2d')?.drawImage(mask, 0, 0);
+    maskBefore.current = copy;
+  };
+
+  // Records the area an edit changed since `beginMaskEdit` as one undo step
+  const commitMaskEdit = (bounds: SelectionBounds) => {
+    const mask = maskCanvasRef.current;
+    const beforeCtx = maskBefore.current?.getContext('2d');
+    if (!mask || !beforeCtx) return;
+
+    const x = Math.max(0, Math.floor(bounds.x0));
+    const y = Math.max(0, Math.floor(bounds.y0));
+    const w = Math.min(mask.width, Math.ceil(bounds.x1)) - x;
+    const h = Math.min(mask.height, Math.ceil(bounds.y1)) - y;
+    if (w <= 0 || h <= 0) return;
+
+    pushHistory(maskRegionEntry(() => maskCanvasRef.current, beforeCtx, x, y, w, h, onMaskChange));
+  };
+
+  // Undo and redo repaint the mask, so the preview follows
+  const onMaskChange = () => {
+    maskRevision.current++;
+    updatePreviewRef.current();
+  };
+
+  const applySettings = (settings: UndoableSettings) => {
+    committedSettings.current = settings;
+    setAdjustments(settings.adjustments);
+    setSpotColors(settings.spotColors);
+  };
+
+  // Records adjustment and spot color edits once they settle, so a slider drag is one step
+  useEffect(() => {
+    const before = committedSettings.current;
+    if (before.adjustments === adjustments && before.spotColors === spotColors) return;
+
+    const after = { adjustments, spotColors };
+    const commit = () => {
+      if (pendingSettings.current !== commit) return; // Already recorded by an undo or redo
+      pendingSettings.current = null;
+      committedSettings.current = after;
+      pushHistory({ undo: () => applySettings(before), redo: () => applySettings(after) });
+    };
+    pendingSettings.current = commit;
+    const timer = setTimeout(commit, SETTINGS_HISTORY_DELAY);
+    return () => clearTimeout(timer);
+  }, [adjustments, spotColors]);
+
+  const handleUndo = () => {
+    pendingSettings.current?.(); // An edit still settling becomes its own step first
+    if (history.current.undo()) setHistoryTick(t => t + 1);
+  };
+
+  const handleRedo = () => {
+    pendingSettings.current?.();
+    if (history.current.redo()) setHistoryTick(t => t + 1);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) while configuring
+  useEffect(() => {
+    if (step !== 2) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Text fields keep their own undo
+      if ((e.target as HTMLElement).matches?.('input[type="text"], input[type="number"], textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo(); else handleUndo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [step]);
+
+  // --- End Undo History ---
+
 
   const handleAddColor = (hex: string = newColorHex) => {
     const newColor: SpotColor = {
       id: Date.now().toString(),
       name: `Цвет ${spotColors.length + 1}`,
       color: hex,
-      threshold: 50
+      threshold: DEFAULT_SPOT_TOLERANCE
     };
     setSpotColors([...spotColors, newColor]);
   };
 
+  const handlePickInk = (ink: Ink) => {
+    setSpotColors([...spotColors, {
+      id: Date.now().toString(),
+      name: ink.name,
+      color: ink.hex,
+      threshold: DEFAULT_SPOT_TOLERANCE,
+      inkId: ink.id
+    }]);
+  };
+
+  const handleImportSwatches = async (file: File) => {
+    try {
+      setInks(mergeInks(inks, await readSwatchFile(file)));
+    } catch (err) {
+      console.error("Swatch import failed", err);
+      alert("Не удалось прочитать файл палитры. Поддерживаются ASE, ACO и GPL.");
+    }
+  };
+
+  const handleExportSwatches = (format: SwatchFormat) => {
+    downloadBlob(writeSwatchFile(inks, format), `inks.${format}`);
+  };
+
+  // Candidates start with the inks locked when they were solved, so they go stale with the locks
+  const changeLocks = (ids: string[]) => {
+    setLockedSpotIds(ids);
+    setPaletteCandidates([]);
+  };
+
   const handleRemoveColor = (id: string) => {
     setSpotColors(spotColors.filter(c => c.id !== id));
+    if (lockedSpotIds.includes(id)) changeLocks(lockedSpotIds.filter(l => l !== id));
+  };
+
+  const toggleSpotLock = (id: string) => {
+    changeLocks(lockedSpotIds.includes(id) ? lockedSpotIds.filter(l => l !== id) : [...lockedSpotIds, id]);
+  };
+
+  const lockedSpots = spotColors.filter(c => lockedSpotIds.includes(c.id));
+
+  /**
+   * Solves palettes of every ink count for the image, keeping the locked
+   * spot colors, and preselects the recommended count.
+   */
+  const handleSolvePalette = async (src: string | null = processedPreview, locked: string[] = lockedSpots.map(c => c.color)) => {
+    if (!src) return;
+    setIsSolvingPalette(true);
+    try {
+      const samples = paletteSamples(await loadThumbnailPixels(src));
+      const candidates = solvePaletteRange(samples, MAX_PALETTE_SIZE, locked);
+      setPaletteCandidates(candidates);
+      setPaletteCount(recommendedCandidate(candidates)?.colors.length ?? 0);
+    } catch (e) {
+      console.error("Palette solving failed", e);
+      setPaletteCandidates([]);
+    } finally {
+      setIsSolvingPalette(false);
+    }
+  };
+
+  // Locked spots stay as they are; the solved inks replace the rest
+  const handleApplyPalette = (candidate: PaletteCandidate) => {
+    if (candidate.colors.length === 0) return;
+    const id = Date.now();
+    const solved = candidate.colors.slice(lockedSpots.length).map((color, idx): SpotColor => ({
+      id: `${id}-${idx}`,
+      name: `Цвет ${lockedSpots.length + idx + 1}`,
+      color,
+      threshold: DEFAULT_SPOT_TOLERANCE
+    }));
+    setSpotColors([...lockedSpots, ...solved]);
+  };
+
+  const handleProfileUpload = async (file: File) => {
+    try {
+      const profile = parseIccProfile(await file.arrayBuffer(), file.name);
+      setIccProfiles([...iccProfiles, profile]);
+      setIccProfile(profile);
+    } catch (err) {
+      console.error("ICC profile load failed", err);
+      alert("Не удалось загрузить ICC профиль. Нужен CMYK профиль с таблицами B2A.");
+    }
+  };
+
+  const handleUpdateColor = (id: string, patch: Partial<SpotColor>) => {
+    setSpotColors(spotColors.map(c => c.id === id ? { ...c, ...patch } : c));
   };
 
+  const currentConfig = (): ProcessingConfig => (
+    { mode, spotColors, includeWhiteBase, underbase, adjustments, garmentColor, knockout, lpi, printWidthCm, colorMetric, index: indexSettings, trap, simProcess, cmyk: cmykSettings, iccProfile }
+  );
+
   const handleProcess = async () => {
     if (!originalImageSrc) return;
-    
-    setIsProcessing(true);
-    // Add small delay to allow UI to show loading state before blocking main thread
-    setTimeout(async () => {
-      try {
-        let res: ChannelResult[] = [];
-        const mask = maskCanvasRef.current;
-        
-        // Process color channels
-        if (mode === SeparationMode.CMYK) {
-          res = await processCMYK(originalImageSrc, adjustments, mask);
-        } else {
-          res = await processSpotColors(originalImageSrc, spotColors, adjustments, mask);
-        }
 
-        // Process White Base if requested
-        if (includeWhiteBase) {
-          const whiteBase = await processWhiteBase(originalImageSrc, adjustments, mask);
-          // Add white base to the beginning
-          res.unshift(whiteBase);
-        }
+    const config = currentConfig();
+    const task = startSeparation(
+      originalImageSrc,
+      maskCanvasRef.current,
+      maskRevision.current,
+      config,
+      setProgress
+    );
+    separationRef.current = task;
+    setProgress(null);
+    setIsProcessing(true);
 
-        setResults(res);
-        setStep(3);
-      } catch (err) {
+    try {
+      const res = await task.promise;
+      setResults(res);
+      setFilmPreviews([]);
+      setProcessedConfig(config);
+      separatedMask.current = maskCanvasRef.current?.toDataURL('image/png') ?? null;
+      setStep(3);
+      handleSaveToLibrary();
+    } catch (err) {
+      if (!isCancelled(err)) {
         console.error("Processing failed", err);
         alert("Ошибка при обработке изображения.");
-      } finally {
-        setIsProcessing(false);
       }
-    }, 100);
+    } finally {
+      separationRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelProcess = () => {
+    separationRef.current?.cancel();
   };
 
   const handleReset = () => {
     setStep(1);
     setResults([]);
+    setFilmPreviews([]);
+    setProcessedConfig(null);
     setImageFile(null);
+    setJobName('');
     setOriginalImageSrc(null);
     setProcessedPreview(null);
     setAdjustments(DEFAULT_ADJUSTMENTS);
     setIsMaskingMode(false);
+    setSelection(null);
     setZoom(1);
     setPan({ x: 0, y: 0 });
-    setSuggestedColors([]);
+    setLockedSpotIds([]);
+    setPaletteCandidates([]);
     if (maskCanvasRef.current) {
         const ctx = maskCanvasRef.current.getContext('2d');
         ctx?.clearRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
     }
+    maskRevision.current++;
+    separatedMask.current = null;
+    sourcePixels.current = null;
+    projectId.current = null;
+    resetHistory({ adjustments: DEFAULT_ADJUSTMENTS, spotColors });
+  };
+
+  const jobBaseName = jobName.trim() || 'separation';
+
+  // The current setup, for saving and reopening later
+  const captureJob = (): SeparationJob | null => {
+    if (!originalImageSrc) return null;
+    return {
+      name: jobName,
+      image: originalImageSrc,
+      mask: maskCanvasRef.current ? maskCanvasRef.current.toDataURL('image/png') : separatedMask.current,
+      config: currentConfig(),
+      output: { halftone, filmLayout, trace: traceSettings, inkCost }
+    };
+  };
+
+  // Step 2 mounts a fresh mask canvas, so the mask the results were made with is drawn back into it
+  const handleBackToSettings = () => {
+    pendingMask.current = separatedMask.current;
+    setStep(2);
+  };
+
+  const handleSaveJob = () => {
+    const job = captureJob();
+    if (!job) return;
+    downloadBlob(writeJobFile(job), `${safeFileName(jobBaseName)}${JOB_FILE_EXTENSION}`);
+    handleSaveToLibrary();
+  };
+
+  // Separation runs and saves keep the job in the library as a recent project
+  const handleSaveToLibrary = async () => {
+    const job = captureJob();
+    if (!job) return;
+    try {
+      const summary = await saveProject(job, await renderThumbnail(processedPreview ?? job.image), projectId.current ?? undefined);
+      projectId.current = summary.id;
+    } catch (e) {
+      console.error("Saving to project library failed", e);
+    }
+  };
+
+  // Restores a saved job into Step 2; only called from Step 1, so the mask canvas is mounted fresh
+  const openJob = (job: SeparationJob, id: string | null = null) => {
+    const { config, output } = completeJob(job);
+    handleReset();
+    projectId.current = id;
+    setJobName(job.name);
+    setOriginalImageSrc(job.image);
+    setProcessedPreview(job.image);
+    setMode(config.mode);
+    setSpotColors(config.spotColors);
+    setIncludeWhiteBase(!!config.includeWhiteBase);
+    setUnderbase(config.underbase);
+    setAdjustments(config.adjustments);
+    setGarmentColor(config.garmentColor);
+    setKnockout(config.knockout);
+    setLpi(config.lpi);
+    setPrintWidthCm(config.printWidthCm);
+    setColorMetric(config.colorMetric);
+    setIndexSettings(config.index);
+    setTrap(config.trap);
+    setSimProcess(config.simProcess);
+    setCmykSettings(config.cmyk);
+    resetHistory({ adjustments: config.adjustments, spotColors: config.spotColors });
+    const profile = config.iccProfile;
+    if (profile) setIccProfiles(profiles => [...profiles.filter(p => p.name !== profile.name), profile]);
+    setIccProfile(profile);
+    setHalftone(output.halftone);
+    setFilmLayout(output.filmLayout);
+    setTraceSettings(output.trace);
+    setInkCost(output.inkCost);
+    pendingMask.current = job.mask;
+    handleSolvePalette(job.image, []);
+    setStep(2);
+  };
+
+  const handleOpenJobFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    try {
+      openJob(await readJobFile(file));
+    } catch (err) {
+      console.error("Job file load failed", err);
+      alert("Не удалось открыть файл проекта.");
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      openJob(await loadProject(id), id);
+    } catch (err) {
+      console.error("Project load failed", err);
+      alert("Не удалось открыть проект.");
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (!confirm("Удалить проект из библиотеки?")) return;
+    try {
+      await deleteProject(id);
+      setProjects(projects.filter(p => p.id !== id));
+    } catch (err) {
+      console.error("Project delete failed", err);
+    }
+  };
+
+  // The print width the results were made for, at the artwork's aspect ratio
+  const printSize = useMemo<PrintSize>(() => ({
+    widthCm: resultPrintWidthCm,
+    heightCm: results.length > 0 ? (resultPrintWidthCm * results[0].height) / results[0].width : 0
+  }), [results, resultPrintWidthCm]);
+
+  // Coverage is measured on the continuous-tone separations, whose density the screens reproduce
+  const inkEstimates = useMemo(
+    () => results.map(channel => estimateInk(channel, halftone, inkCost, printSize, inks.find(ink => ink.id === channel.inkId))),
+    [results, halftone, inkCost, printSize, inks]
+  );
+
+  // Channels printed with a library ink of known opacity show it in the composite
+  const compositeChannels = useMemo(() => results.map(channel => {
+    const opacity = inks.find(ink => ink.id === channel.inkId)?.opacity;
+    return opacity === undefined ? channel : { ...channel, opacity: opacity / 100 };
+  }), [results, inks]);
+
+  // Heavy AM screens the angle assignment couldn't keep MIN_ANGLE_SEPARATION apart. The process
+  // inks keep their standard angles (yellow sits 15° off cyan and magenta), so pairs of them aren't flagged.
+  const angleWarnings = useMemo(() => {
+    if (halftone.method !== 'am') return [];
+    const isProcess = (channel: ChannelResult) =>
+      processedConfig?.mode === SeparationMode.CMYK && !channel.isUnderbase && !channel.opaque;
+    const coverages = results.map(channel => measureCoverage(channel.density).meanDensity / 100);
+    return angleConflicts(results.map(channel => channel.screenAngle), coverages)
+      .filter(([a, b]) => !(isProcess(results[a]) && isProcess(results[b])))
+      .map(([a, b]) => `${results[a].name} ${results[a].screenAngle}° / ${results[b].name} ${results[b].screenAngle}°`);
+  }, [results, halftone.method, processedConfig]);
+
+  // Films are rendered and encoded only when actually downloaded
+  const handleDownload = async (idx: number) => {
+    setIsExporting(true);
+    try {
+      const png = await filmPng(results[idx], halftone, filmLayout, resultPrintWidthCm, { jobName, order: idx + 1, total: results.length });
+      downloadBlob(png, `${safeFileName(results[idx].name)}_channel.png`);
+    } catch (err) {
+      console.error("Export failed", err);
+      alert("Ошибка при экспорте файла.");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const handleDownload = (dataUrl: string, name: string) => {
-    const link = document.createElement('a');
-    link.href = dataUrl;
-    link.download = `${name}_channel.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Packs every film plus a job manifest into one archive
+  const handleDownloadAll = async () => {
+    if (!processedConfig || results.length === 0) return;
+    setIsExporting(true);
+    try {
+      const manifest = buildManifest(
+        jobBaseName,
+        processedConfig.mode,
+        results,
+        filmSize(results[0], halftone, filmLayout, resultPrintWidthCm),
+        halftone,
+        processedConfig.adjustments,
+        inkEstimates,
+        inkCost
+      );
+
+      const pngs: { name: string; data: Blob }[] = [];
+      for (const [idx, channel] of results.entries()) {
+        const label = { jobName, order: idx + 1, total: results.length };
+        pngs.push({ name: channelFileName(channel, idx + 1), data: await filmPng(channel, halftone, filmLayout, resultPrintWidthCm, label) });
+      }
+
+      const encoder = new TextEncoder();
+      const zip = await writeZip([
+        ...pngs,
+        { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+        { name: 'manifest.txt', data: encoder.encode(manifestToText(manifest)) }
+      ]);
+      downloadBlob(zip, `${safeFileName(jobBaseName)}_films.zip`);
+    } catch (err) {
+      console.error("Export failed", err);
+      alert("Ошибка при экспорте файла.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Packs every channel into one multichannel or vector document
+  const handleExportDocument = async (format: DocumentFormat) => {
+    setIsExporting(true);
+    try {
+      const baseName = safeFileName(jobBaseName);
+      if (format === 'svg' || format === 'pdf') {
+        // Vectors are traced from the continuous-tone separations, not the screened films
+        const ppi = imagePpi(results[0].width, resultPrintWidthCm);
+        const traced = results.map(c => ({
+          name: c.name,
+          colorHex: c.colorHex,
+          traced: traceDensity(c.density, c.width, c.height, traceSettings)
+        }));
+        if (format === 'svg') {
+          downloadBlob(writeSvg(traced, ppi), `${baseName}.svg`);
+        } else {
+          downloadBlob(writeSeparationPdf(traced, ppi), `${baseName}.pdf`);
+        }
+        return;
+      }
+
+      if (format === 'psd') {
+        downloadBlob(writePsd(lazyFilms(results, halftone, filmLayout, resultPrintWidthCm, jobName), halftone.dpi), `${baseName}.psd`);
+      } else {
+        downloadBlob(writeMultiPageTiff(lazyFilms(results, halftone, filmLayout, resultPrintWidthCm, jobName), halftone.dpi), `${baseName}.tif`);
+      }
+    } catch (err) {
+      console.error("Export failed", err);
+      alert("Ошибка при экспорте файла.");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -364,6 +1156,18 @@ function App() {
               <h3 className="text-xl font-semibold mb-2">Загрузите изображение</h3>
               <p className="text-slate-500">JPG, PNG (RGB или CMYK)</p>
             </div>
+            <input
+              type="file"
+              ref={jobInputRef}
+              accept={JOB_FILE_EXTENSION}
+              className="hidden"
+              onChange={handleOpenJobFile}
+            />
+            <Button variant="ghost" className="mt-4" onClick={() => jobInputRef.current?.click()}>
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Открыть проект ({JOB_FILE_EXTENSION})
+            </Button>
+            <ProjectLibrary projects={projects} onOpen={handleOpenProject} onDelete={handleDeleteProject} />
           </div>
         )}
 
@@ -502,32 +1306,109 @@ function App() {
 
                            {isMaskingMode && (
                              <div className="mt-3 space-y-3 p-2 bg-slate-900/50 rounded animate-fade-in">
-                               <div className="flex gap-2">
-                                 <button 
-                                   onClick={() => setBrushType('remove')}
-                                   className={`flex-1 p-2 rounded border text-xs flex flex-col items-center gap-1 ${brushType === 'remove' ? 'border-red-500 bg-red-500/20 text-red-200' : 'border-slate-700 text-slate-400'}`}
+                               <div className="flex rounded border border-slate-700 overflow-hidden text-xs">
+                                 <button
+                                   onClick={() => setMaskTool('brush')}
+                                   className={`flex-1 py-1.5 flex items-center justify-center gap-1 ${maskTool === 'brush' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
                                  >
-                                    <Ban className="w-4 h-4" /> Удалить
+                                   <Paintbrush className="w-3 h-3" /> Кисть
                                  </button>
-                                 <button 
-                                   onClick={() => setBrushType('keep')}
-                                   className={`flex-1 p-2 rounded border text-xs flex flex-col items-center gap-1 ${brushType === 'keep' ? 'border-green-500 bg-green-500/20 text-green-200' : 'border-slate-700 text-slate-400'}`}
+                                 <button
+                                   onClick={() => setMaskTool('wand')}
+                                   className={`flex-1 py-1.5 flex items-center justify-center gap-1 border-l border-slate-700 ${maskTool === 'wand' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
                                  >
-                                    <ShieldCheck className="w-4 h-4" /> Оставить
+                                   <WandSparkles className="w-3 h-3" /> Волшебная палочка
                                  </button>
                                </div>
-                               <div>
-                                 <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                   <label>Размер кисти</label>
-                                   <span>{brushSize}px</span>
+                               {maskTool === 'wand' && (
+                                 <div className="space-y-3">
+                                   <div>
+                                     <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                       <label>Допуск (ΔE)</label>
+                                       <span>{wand.tolerance}</span>
+                                     </div>
+                                     <input
+                                       type="range" min="1" max="100"
+                                       value={wand.tolerance}
+                                       onChange={(e) => setWand({...wand, tolerance: Number(e.target.value)})}
+                                       className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                     />
+                                   </div>
+                                   <div>
+                                     <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                       <label>Расширить выделение</label>
+                                       <span>{wand.grow}px</span>
+                                     </div>
+                                     <input
+                                       type="range" min="0" max="20"
+                                       value={wand.grow}
+                                       onChange={(e) => setWand({...wand, grow: Number(e.target.value)})}
+                                       className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                     />
+                                   </div>
+                                   <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                     <input
+                                       type="checkbox"
+                                       checked={wand.contiguous}
+                                       onChange={(e) => setWand({...wand, contiguous: e.target.checked})}
+                                       className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                                     />
+                                     Только смежные области
+                                   </label>
+                                   <p className="text-xs text-slate-500">Клик — выделить цвет, Shift+клик — добавить к выделению.</p>
+                                   <div className="flex gap-2">
+                                     <button
+                                       onClick={() => commitSelection('remove')}
+                                       disabled={!selection}
+                                       className="flex-1 p-2 rounded border border-red-500/60 text-red-200 hover:bg-red-500/20 text-xs flex flex-col items-center gap-1 disabled:opacity-40 disabled:hover:bg-transparent"
+                                     >
+                                       <Ban className="w-4 h-4" /> Удалить выделенное
+                                     </button>
+                                     <button
+                                       onClick={() => commitSelection('keep')}
+                                       disabled={!selection}
+                                       className="flex-1 p-2 rounded border border-green-500/60 text-green-200 hover:bg-green-500/20 text-xs flex flex-col items-center gap-1 disabled:opacity-40 disabled:hover:bg-transparent"
+                                     >
+                                       <ShieldCheck className="w-4 h-4" /> Оставить выделенное
+                                     </button>
+                                   </div>
+                                   {selection && (
+                                     <button onClick={() => setSelection(null)} className="text-xs text-slate-400 hover:text-slate-200 w-full text-center">
+                                       Снять выделение
+                                     </button>
+                                   )}
                                  </div>
-                                 <input 
-                                    type="range" min="5" max="100"
-                                    value={brushSize}
-                                    onChange={(e) => setBrushSize(Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-                                  />
-                               </div>
+                               )}
+                               {maskTool === 'brush' && (
+                                 <>
+                                   <div className="flex gap-2">
+                                     <button 
+                                       onClick={() => setBrushType('remove')}
+                                       className={`flex-1 p-2 rounded border text-xs flex flex-col items-center gap-1 ${brushType === 'remove' ? 'border-red-500 bg-red-500/20 text-red-200' : 'border-slate-700 text-slate-400'}`}
+                                     >
+                                        <Ban className="w-4 h-4" /> Удалить
+                                     </button>
+                                     <button 
+                                       onClick={() => setBrushType('keep')}
+                                       className={`flex-1 p-2 rounded border text-xs flex flex-col items-center gap-1 ${brushType === 'keep' ? 'border-green-500 bg-green-500/20 text-green-200' : 'border-slate-700 text-slate-400'}`}
+                                     >
+                                        <ShieldCheck className="w-4 h-4" /> Оставить
+                                     </button>
+                                   </div>
+                                   <div>
+                                     <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                       <label>Размер кисти</label>
+                                       <span>{brushSize}px</span>
+                                     </div>
+                                     <input 
+                                        type="range" min="5" max="100"
+                                        value={brushSize}
+                                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                                        className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                      />
+                                   </div>
+                                 </>
+                               )}
                                <button onClick={clearMask} className="text-xs text-red-400 hover:text-red-300 w-full text-center py-1">
                                  Очистить всю маску
                                </button>
@@ -570,28 +1451,94 @@ function App() {
                   >
                     Выборочные цвета
                   </button>
+                  <button 
+                    onClick={() => setMode(SeparationMode.INDEX)}
+                    className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${mode === SeparationMode.INDEX ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    Индексные
+                  </button>
+                  <button 
+                    onClick={() => setMode(SeparationMode.SIMULATED_PROCESS)}
+                    className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${mode === SeparationMode.SIMULATED_PROCESS ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    Сим. процесс
+                  </button>
                 </div>
                 
+                {/* Garment Color & Knockout */}
+                <GarmentPanel
+                  garmentColor={garmentColor}
+                  onGarmentColorChange={setGarmentColor}
+                  knockout={knockout}
+                  onKnockoutChange={setKnockout}
+                />
+
+                {/* Print Size */}
+                <div className="mb-6 flex items-center justify-between gap-2 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+                  <label className="text-sm font-medium text-slate-200">Ширина печати, см</label>
+                  <input
+                    type="number" min="1" max={MAX_PRINT_WIDTH_CM} step="0.5"
+                    value={printWidthCm}
+                    onChange={(e) => setPrintWidthCm(Math.min(MAX_PRINT_WIDTH_CM, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                  />
+                </div>
+
                 {/* White Base Option */}
-                <div className="mb-6 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
-                  <label className="flex items-center cursor-pointer gap-3">
-                    <div className="relative flex items-center">
+                {mode === SeparationMode.SIMULATED_PROCESS ? (
+                  <div className="mb-6 space-y-3 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+                    <p className="text-xs text-slate-500">Подложка и белый для бликов создаются автоматически</p>
+                    <div>
+                      <div className="flex justify-between text-xs text-slate-400 mb-1">
+                        <label>Сжатие белого для бликов (px)</label>
+                        <span>{simProcess.highlightChoke}</span>
+                      </div>
                       <input 
-                        type="checkbox" 
-                        checked={includeWhiteBase}
-                        onChange={(e) => setIncludeWhiteBase(e.target.checked)}
-                        className="w-5 h-5 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-slate-900 accent-indigo-600"
+                        type="range" min="0" max="5"
+                        value={simProcess.highlightChoke}
+                        onChange={(e) => setSimProcess({...simProcess, highlightChoke: Number(e.target.value)})}
+                        className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                       />
                     </div>
-                    <div>
-                      <span className="block text-sm font-medium text-slate-200">Белая подложка (Underbase)</span>
-                      <span className="block text-xs text-slate-500">Для печати на темном текстиле</span>
-                    </div>
-                  </label>
-                </div>
+                  </div>
+                ) : (
+                  <div className="mb-6 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+                    <label className="flex items-center cursor-pointer gap-3">
+                      <div className="relative flex items-center">
+                        <input 
+                          type="checkbox" 
+                          checked={includeWhiteBase}
+                          onChange={(e) => setIncludeWhiteBase(e.target.checked)}
+                          className="w-5 h-5 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-slate-900 accent-indigo-600"
+                        />
+                      </div>
+                      <div>
+                        <span className="block text-sm font-medium text-slate-200">Белая подложка (Underbase)</span>
+                        <span className="block text-xs text-slate-500">Для печати на темном текстиле</span>
+                      </div>
+                    </label>
+                    {includeWhiteBase && (
+                      <UnderbaseSettingsPanel settings={underbase} onChange={setUnderbase} />
+                    )}
+                  </div>
+                )}
+
+                {/* CMYK Config */}
+                {mode === SeparationMode.CMYK && (
+                  <div className="mb-6">
+                    <CmykSettingsPanel
+                      settings={cmykSettings}
+                      onChange={setCmykSettings}
+                      profiles={iccProfiles}
+                      profile={iccProfile}
+                      onProfileChange={setIccProfile}
+                      onProfileUpload={handleProfileUpload}
+                    />
+                  </div>
+                )}
 
                 {/* Spot Config */}
-                {mode === SeparationMode.SPOT && (
+                {mode !== SeparationMode.CMYK && (
                   <div className="space-y-4">
                     <div className="flex items-end gap-2">
                       <div className="flex-1">
@@ -608,46 +1555,150 @@ function App() {
                       </Button>
                     </div>
 
-                    {/* Suggested Colors */}
-                    {suggestedColors.length > 0 && (
-                      <div className="mb-2">
-                        <p className="text-xs text-slate-500 mb-2">Основные цвета:</p>
-                        <div className="flex flex-wrap gap-2">
-                          {suggestedColors.map(color => (
-                            <button
-                              key={color}
-                              onClick={() => {
-                                setNewColorHex(color);
-                                handleAddColor(color);
-                              }}
-                              className="w-6 h-6 rounded-full border border-slate-600 hover:scale-110 transition-transform focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                              style={{ backgroundColor: color }}
-                              title={`Добавить ${color}`}
-                            />
-                          ))}
+                    {/* Ink library */}
+                    <InkLibraryPanel
+                      inks={inks}
+                      onChange={setInks}
+                      onPick={handlePickInk}
+                      onImport={handleImportSwatches}
+                      onExport={handleExportSwatches}
+                    />
+
+                    {/* Palette solver */}
+                    <PalettePanel
+                      candidates={paletteCandidates}
+                      recommended={recommendedCandidate(paletteCandidates)}
+                      selected={paletteCount}
+                      onSelect={setPaletteCount}
+                      onApply={handleApplyPalette}
+                      onSolve={() => handleSolvePalette()}
+                      onAddColor={(color) => {
+                        setNewColorHex(color);
+                        handleAddColor(color);
+                      }}
+                      isSolving={isSolvingPalette}
+                      lockedCount={lockedSpots.length}
+                    />
+
+                    {/* Index mode options */}
+                    {mode === SeparationMode.INDEX && (
+                      <div className="space-y-3 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={indexSettings.antiAlias}
+                            onChange={(e) => setIndexSettings({...indexSettings, antiAlias: e.target.checked})}
+                            className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                          />
+                          Сглаживание краёв
+                        </label>
+                        <div>
+                          <div className="flex justify-between text-xs text-slate-400 mb-1">
+                            <label>Допуск наложения (ΔE)</label>
+                            <span>{indexSettings.overprintTolerance === 0 ? 'выкл' : indexSettings.overprintTolerance}</span>
+                          </div>
+                          <input 
+                            type="range" min="0" max="20"
+                            value={indexSettings.overprintTolerance}
+                            onChange={(e) => setIndexSettings({...indexSettings, overprintTolerance: Number(e.target.value)})}
+                            className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                          />
                         </div>
                       </div>
                     )}
 
-                    <div className="space-y-2 max-h-[200px] overflow-y-auto pr-1 custom-scrollbar">
-                      {spotColors.map((sc) => (
-                        <div key={sc.id} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg border border-slate-700">
-                          <div className="flex items-center gap-3">
-                            <div 
-                              className="w-6 h-6 rounded-full border border-slate-600 shadow-sm"
-                              style={{ backgroundColor: sc.color }}
+                    {/* Trapping */}
+                    {mode !== SeparationMode.SIMULATED_PROCESS && (
+                      <div className="bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={trap.enabled}
+                            onChange={(e) => setTrap({...trap, enabled: e.target.checked})}
+                            className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                          />
+                          Треппинг (светлые краски под темные)
+                        </label>
+                        {trap.enabled && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <input
+                              type="number" min="0" step={trap.unit === 'mm' ? 0.05 : 1}
+                              value={trap.width}
+                              onChange={(e) => setTrap({...trap, width: Math.max(0, Number(e.target.value))})}
+                              className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
                             />
-                            <div>
-                              <p className="text-sm font-medium">{sc.name}</p>
-                              <p className="text-xs text-slate-500 uppercase">{sc.color}</p>
+                            <select
+                              value={trap.unit}
+                              onChange={(e) => setTrap({...trap, unit: e.target.value as TrapUnit})}
+                              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                            >
+                              <option value="px">px</option>
+                              <option value="mm">мм</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {mode !== SeparationMode.SIMULATED_PROCESS && (
+                      <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">Метрика цветового отличия</label>
+                        <select
+                          value={colorMetric}
+                          onChange={(e) => setColorMetric(e.target.value as ColorMetric)}
+                          className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200"
+                        >
+                          <option value="de2000">ΔE2000 (рекомендуется)</option>
+                          <option value="de94">ΔE94</option>
+                          <option value="de76">ΔE76</option>
+                        </select>
+                      </div>
+                    )}
+
+                    <div className="space-y-2 max-h-[260px] overflow-y-auto pr-1 custom-scrollbar">
+                      {spotColors.map((sc) => (
+                        <div key={sc.id} className="p-3 bg-slate-800/50 rounded-lg border border-slate-700">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <div 
+                                className="w-6 h-6 rounded-full border border-slate-600 shadow-sm"
+                                style={{ backgroundColor: sc.color }}
+                              />
+                              <div>
+                                <p className="text-sm font-medium">{sc.name}</p>
+                                <p className="text-xs text-slate-500 uppercase">{sc.color}</p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => toggleSpotLock(sc.id)}
+                                className={`transition-colors ${lockedSpotIds.includes(sc.id) ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+                                title={lockedSpotIds.includes(sc.id) ? 'Открепить краску' : 'Закрепить краску при подборе палитры'}
+                              >
+                                {lockedSpotIds.includes(sc.id) ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                              </button>
+                              <button 
+                                onClick={() => handleRemoveColor(sc.id)}
+                                className="text-slate-500 hover:text-red-400 transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
                             </div>
                           </div>
-                          <button 
-                            onClick={() => handleRemoveColor(sc.id)}
-                            className="text-slate-500 hover:text-red-400 transition-colors"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+                          {mode === SeparationMode.SPOT && (
+                            <div className="mt-2">
+                              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                                <label>Допуск (ΔE)</label>
+                                <span>{sc.threshold}</span>
+                              </div>
+                              <input 
+                                type="range" min="1" max="100"
+                                value={sc.threshold}
+                                onChange={(e) => handleUpdateColor(sc.id, { threshold: Number(e.target.value) })}
+                                className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                            </div>
+                          )}
                         </div>
                       ))}
                       {spotColors.length === 0 && (
@@ -662,11 +1713,12 @@ function App() {
                  <Button 
                    fullWidth 
                    onClick={handleProcess}
-                   disabled={isProcessing || (mode === SeparationMode.SPOT && spotColors.length === 0)}
+                   disabled={isProcessing || (mode !== SeparationMode.CMYK && spotColors.length === 0)}
                   >
                    {isProcessing ? (
                      <span className="flex items-center gap-2">
-                       <RefreshCw className="w-4 h-4 animate-spin" /> Обработка...
+                       <RefreshCw className="w-4 h-4 animate-spin" />
+                       {progress ? `${STAGE_LABELS[progress.stage]} ${Math.round(progress.fraction * 100)}%` : 'Обработка...'}
                      </span>
                    ) : (
                      <span className="flex items-center gap-2">
@@ -674,7 +1726,21 @@ function App() {
                      </span>
                    )}
                  </Button>
-                 <Button fullWidth variant="ghost" onClick={handleReset}>Отмена</Button>
+                 {isProcessing ? (
+                   <Button fullWidth variant="ghost" onClick={handleCancelProcess}>
+                     <span className="flex items-center gap-2">
+                       <CircleStop className="w-4 h-4" /> Остановить
+                     </span>
+                   </Button>
+                 ) : (
+                   <div className="flex gap-2">
+                     <Button fullWidth variant="ghost" onClick={handleSaveJob} title="Сохранить изображение, маску и настройки для повторного тиража">
+                       <Save className="w-4 h-4 mr-2" />
+                       Сохранить проект
+                     </Button>
+                     <Button fullWidth variant="ghost" onClick={handleReset}>Отмена</Button>
+                   </div>
+                 )}
               </div>
             </div>
 
@@ -693,6 +1759,11 @@ function App() {
                   <button onClick={handleZoomIn} className="p-1.5 hover:bg-slate-800 text-slate-300"><ZoomIn className="w-4 h-4" /></button>
                   <button onClick={handleResetView} className="p-1.5 hover:bg-slate-800 text-slate-300 border-l border-slate-700" title="Сброс вида"><Maximize className="w-4 h-4" /></button>
                 </div>
+                {/* Undo / Redo */}
+                <div className="flex items-center bg-slate-900/80 backdrop-blur rounded border border-slate-700 overflow-hidden">
+                  <button onClick={handleUndo} disabled={!history.current.canUndo} className="p-1.5 hover:bg-slate-800 text-slate-300 disabled:opacity-40 disabled:hover:bg-transparent" title="Отменить (Ctrl+Z)"><Undo2 className="w-4 h-4" /></button>
+                  <button onClick={handleRedo} disabled={!history.current.canRedo} className="p-1.5 hover:bg-slate-800 text-slate-300 border-l border-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" title="Повторить (Ctrl+Shift+Z)"><Redo2 className="w-4 h-4" /></button>
+                </div>
               </div>
               
               {/* Manual Masking Hint */}
@@ -703,7 +1774,7 @@ function App() {
               )}
 
               {/* Cursor Overlay (Follows mouse) */}
-              {isMaskingMode && cursorPos && (
+              {isMaskingMode && maskTool === 'brush' && cursorPos && (
                  <div 
                    className="fixed pointer-events-none rounded-full border-2 border-white/80 shadow-sm z-50 bg-white/10"
                    style={{
@@ -754,7 +1825,7 @@ function App() {
                   {/* Mask Canvas Interaction Layer - Only visible/interactive when masking */}
                   <canvas 
                     ref={maskCanvasRef}
-                    className={`absolute inset-0 w-full h-full z-20 touch-none ${isMaskingMode ? 'opacity-50 pointer-events-auto cursor-none' : 'opacity-0 pointer-events-none'}`}
+                    className={`absolute inset-0 w-full h-full z-20 touch-none ${isMaskingMode ? `opacity-50 pointer-events-auto ${maskTool === 'wand' ? 'cursor-crosshair' : 'cursor-none'}` : 'opacity-0 pointer-events-none'}`}
                     onMouseDown={startDrawing}
                     onMouseMove={handlePointerMove}
                     onMouseUp={stopDrawing}
@@ -762,6 +1833,12 @@ function App() {
                     onTouchMove={handlePointerMove}
                     onTouchEnd={stopDrawing}
                   />
+
+                  {/* Magic wand selection */}
+                  <canvas
+                    ref={selectionCanvasRef}
+                    className={`absolute inset-0 w-full h-full z-30 pointer-events-none ${isMaskingMode && selection ? 'opacity-40' : 'opacity-0'}`}
+                  />
                 </div>
               </div>
               
@@ -782,20 +1859,58 @@ function App() {
           <div className="flex flex-col h-full min-h-[600px] flex-1">
             <div className="p-6 border-b border-slate-800 flex items-center justify-between bg-slate-900">
               <div className="flex items-center gap-3">
-                <Button variant="ghost" onClick={() => setStep(2)} className="!p-2">
+                <Button variant="ghost" onClick={handleBackToSettings} className="!p-2">
                   <ArrowRight className="w-5 h-5 rotate-180" />
                 </Button>
                 <h2 className="text-xl font-bold">Результат сепарации</h2>
                 <div className="flex gap-2">
                   <span className="text-xs px-2 py-1 bg-slate-800 rounded text-slate-400 border border-slate-700">
-                    {mode === SeparationMode.CMYK ? 'CMYK' : 'Spot Colors'}
+                    {mode === SeparationMode.CMYK ? 'CMYK' : mode === SeparationMode.INDEX ? 'Index Colors' : mode === SeparationMode.SIMULATED_PROCESS ? 'Simulated Process' : 'Spot Colors'}
                   </span>
                   <span className="text-xs px-2 py-1 bg-slate-800 rounded text-slate-400 border border-slate-700">
-                     PNG (Transparent)
+                     {halftone.method === 'none' ? 'PNG (Transparent)' : 'PNG (1-bit)'}
                   </span>
                 </div>
               </div>
               <div className="flex gap-2">
+                <div className="flex p-1 bg-slate-800 rounded-lg">
+                  <button
+                    onClick={() => setResultView('films')}
+                    className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${resultView === 'films' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    Плёнки
+                  </button>
+                  <button
+                    onClick={() => setResultView('composite')}
+                    className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${resultView === 'composite' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    Симуляция печати
+                  </button>
+                </div>
+                <Button onClick={handleDownloadAll} disabled={isExporting} title="Все плёнки и паспорт задания одним архивом">
+                  <FileArchive className="w-4 h-4 mr-2" />
+                  Скачать всё (ZIP)
+                </Button>
+                <Button variant="secondary" onClick={() => handleExportDocument('psd')} disabled={isExporting} title="Все каналы в одном PSD (Multichannel)">
+                  <Download className="w-4 h-4 mr-2" />
+                  PSD
+                </Button>
+                <Button variant="secondary" onClick={() => handleExportDocument('tiff')} disabled={isExporting} title="Многостраничный TIFF, по странице на канал">
+                  <Download className="w-4 h-4 mr-2" />
+                  TIFF
+                </Button>
+                <Button variant="secondary" onClick={() => handleExportDocument('svg')} disabled={isExporting} title="Векторные контуры каналов, по слою на канал">
+                  <PenTool className="w-4 h-4 mr-2" />
+                  SVG
+                </Button>
+                <Button variant="secondary" onClick={() => handleExportDocument('pdf')} disabled={isExporting} title="Векторный PDF, по странице на сепарацию">
+                  <PenTool className="w-4 h-4 mr-2" />
+                  PDF
+                </Button>
+                <Button variant="secondary" onClick={handleSaveJob} title="Сохранить изображение, маску и настройки для повторного тиража">
+                  <Save className="w-4 h-4 mr-2" />
+                  Проект
+                </Button>
                 <Button variant="secondary" onClick={handleReset}>
                   <X className="w-4 h-4 mr-2" />
                   Новый проект
@@ -803,46 +1918,118 @@ function App() {
               </div>
             </div>
 
+            {/* Film Output Settings */}
+            {resultView === 'films' && (
+              <FilmOutputPanel
+                halftone={halftone}
+                onHalftoneChange={setHalftone}
+                lpi={lpi}
+                onLpiChange={(value) => {
+                  setLpi(value);
+                  setResults(results.map(r => ({...r, lpi: value})));
+                }}
+                layout={filmLayout}
+                onLayoutChange={setFilmLayout}
+                jobName={jobName}
+                onJobNameChange={setJobName}
+                trace={traceSettings}
+                onTraceChange={setTraceSettings}
+                isRendering={isRenderingFilms}
+              />
+            )}
+
+            {resultView === 'films' && results.length > 0 && (
+              <InkCostPanel
+                settings={inkCost}
+                onChange={setInkCost}
+                estimates={inkEstimates}
+                printSize={printSize}
+              />
+            )}
+
+            {angleWarnings.length > 0 && (
+              <div className="px-6 py-2 border-b border-slate-800 bg-amber-500/10 text-xs text-amber-300 flex items-start gap-2">
+                <TriangleAlert className="w-4 h-4 shrink-0" />
+                <span>
+                  Риск муара: растры плотных красок ближе {MIN_ANGLE_SEPARATION}° друг к другу — {angleWarnings.join(', ')}.
+                  Больше трех плотных красок (вместе с подложкой) не развести по углам.
+                </span>
+              </div>
+            )}
+
             <div className="flex-1 p-6 bg-slate-950 overflow-y-auto">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                {results.map((channel, idx) => (
-                  <div key={idx} className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden group hover:border-indigo-500/50 transition-colors">
-                    <div className="aspect-[4/5] relative bg-white flex items-center justify-center p-4">
-                      {/* Light Checkerboard background for transparency reference */}
-                      <div className="absolute inset-0" style={{
-                          backgroundImage: 'linear-gradient(45deg, #e2e8f0 25%, transparent 25%), linear-gradient(-45deg, #e2e8f0 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e2e8f0 75%), linear-gradient(-45deg, transparent 75%, #e2e8f0 75%)',
-                          backgroundSize: '20px 20px',
-                          backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
-                      }}></div>
+              {resultView === 'composite' ? (
+                <CompositePreview
+                  channels={compositeChannels}
+                  initialGarmentColor={processedConfig ? compositeGarment(processedConfig) : undefined}
+                />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  {results.map((channel, idx) => (
+                    <div key={idx} className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden group hover:border-indigo-500/50 transition-colors">
+                      <div className="aspect-[4/5] relative bg-white flex items-center justify-center p-4">
+                        {/* Light Checkerboard background for transparency reference */}
+                        <div className="absolute inset-0" style={{
+                            backgroundImage: 'linear-gradient(45deg, #e2e8f0 25%, transparent 25%), linear-gradient(-45deg, #e2e8f0 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e2e8f0 75%), linear-gradient(-45deg, transparent 75%, #e2e8f0 75%)',
+                            backgroundSize: '20px 20px',
+                            backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
+                        }}></div>
                       
-                      <img 
-                        src={channel.dataUrl} 
-                        alt={channel.name} 
-                        className="max-w-full max-h-full object-contain shadow-sm relative z-10" 
-                      />
-                    </div>
-                    <div className="p-4 border-t border-slate-800">
-                      <div className="flex items-center gap-2 mb-3">
-                        <div 
-                          className="w-4 h-4 rounded-full border border-slate-600"
-                          style={{ backgroundColor: channel.colorHex }}
+                        <ChannelThumbnail
+                          channel={filmPreviews[idx] ?? channel}
+                          className="max-w-full max-h-full object-contain shadow-sm relative z-10"
                         />
-                        <span className="font-semibold truncate flex-1">{channel.name}</span>
                       </div>
-                      <Button 
-                        variant="secondary" 
-                        fullWidth 
-                        size="sm"
-                        onClick={() => handleDownload(channel.dataUrl, channel.name)}
-                        className="text-xs"
-                      >
-                        <Download className="w-4 h-4 mr-2" />
-                        Скачать PNG
-                      </Button>
+                      <div className="p-4 border-t border-slate-800">
+                        <div className="flex items-center gap-2 mb-3">
+                          <div 
+                            className="w-4 h-4 rounded-full border border-slate-600"
+                            style={{ backgroundColor: channel.colorHex }}
+                          />
+                          <span className="font-semibold truncate flex-1">{channel.name}</span>
+                        </div>
+                        {inkEstimates[idx] && (
+                          <div className="mb-3 space-y-1 text-xs text-slate-400">
+                            <div className="flex justify-between">
+                              <span>Покрытие {inkEstimates[idx].coverage.toFixed(1)}%</span>
+                              <span>Средн. {inkEstimates[idx].meanDensity.toFixed(1)}% · Макс. {inkEstimates[idx].maxDensity.toFixed(0)}%</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>Сетка {inkEstimates[idx].mesh}</span>
+                              <span className="text-slate-300">≈ {inkEstimates[idx].grams.toFixed(1)} г · {inkEstimates[idx].cost.toFixed(2)} ₽</span>
+                            </div>
+                          </div>
+                        )}
+                        {halftone.method === 'am' && (
+                          <div className="flex items-center justify-between text-xs text-slate-400 mb-3">
+                            <label>Угол растра</label>
+                            <input
+                              type="number" min="0" max="180" step="0.5"
+                              value={channel.screenAngle}
+                              onChange={(e) => {
+                                const screenAngle = Number(e.target.value);
+                                setResults(results.map((r, i) => i === idx ? {...r, screenAngle} : r));
+                              }}
+                              className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 text-right"
+                            />
+                          </div>
+                        )}
+                        <Button 
+                          variant="secondary" 
+                          fullWidth 
+                          size="sm"
+                          disabled={isExporting}
+                          onClick={() => handleDownload(idx)}
+                          className="text-xs"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Скачать PNG
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         )}
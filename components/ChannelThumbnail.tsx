@@ -0,0 +1,32 @@
+import React, { useEffect, useRef } from 'react';
+import { ChannelResult } from '../types';
+import { PREVIEW_MAX_SIDE, downsampleDensity } from '../services/imageProcessor';
+import { paintDensity } from '../services/pixelPipeline';
+
+interface ChannelThumbnailProps {
+  channel: ChannelResult;
+  maxSize?: number; // Longest side in pixels
+  className?: string;
+}
+
+export const ChannelThumbnail: React.FC<ChannelThumbnailProps> = ({ channel, maxSize = PREVIEW_MAX_SIDE, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { density, width, height } = channel;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const imageData = ctx.createImageData(canvas.width, canvas.height);
+    paintDensity(downsampleDensity(density, width, height, canvas.width, canvas.height), imageData.data);
+    ctx.putImageData(imageData, 0, 0);
+  }, [density, width, height, maxSize]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={channel.name} className={className} />;
+};
@@ -0,0 +1,134 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { BlackGeneration, CmykSettings, IccProfile, RenderingIntent } from '../types';
+
+interface CmykSettingsPanelProps {
+  settings: CmykSettings;
+  onChange: (value: CmykSettings) => void;
+  profiles: IccProfile[];
+  profile: IccProfile | null;
+  onProfileChange: (value: IccProfile | null) => void;
+  onProfileUpload: (file: File) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200";
+const rangeClass = "w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+
+export const CmykSettingsPanel: React.FC<CmykSettingsPanelProps> = ({
+  settings,
+  onChange,
+  profiles,
+  profile,
+  onProfileChange,
+  onProfileUpload
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-4 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1">Выходной профиль</label>
+        <div className="flex gap-2">
+          <select
+            value={profile ? profiles.indexOf(profile) : -1}
+            onChange={(e) => {
+              const idx = Number(e.target.value);
+              onProfileChange(idx >= 0 ? profiles[idx] : null);
+            }}
+            className={inputClass}
+          >
+            <option value={-1}>Встроенное преобразование</option>
+            {profiles.map((p, idx) => (
+              <option key={idx} value={idx}>{p.name} (v{p.version})</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-2 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-white"
+            title="Загрузить ICC профиль (CMYK, таблицы B2A)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".icc,.icm"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onProfileUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {profile ? (
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Метод рендеринга</label>
+          <select
+            value={settings.renderingIntent}
+            onChange={(e) => onChange({...settings, renderingIntent: Number(e.target.value) as RenderingIntent})}
+            className={inputClass}
+          >
+            <option value={0}>Перцепционный</option>
+            <option value={1}>Относительный колориметрический</option>
+            <option value={2}>Насыщенность</option>
+          </select>
+          <p className="text-xs text-slate-500 mt-1">GCR/UCR и начало черного задаются таблицей B2A профиля; из настроек действует только TAC</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex p-1 bg-slate-800 rounded-lg">
+            {([['gcr', 'GCR'], ['ucr', 'UCR']] as [BlackGeneration, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => onChange({...settings, blackGeneration: value})}
+                className={`flex-1 py-1 text-xs font-medium rounded-md transition-colors ${settings.blackGeneration === value ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <label>Замена серого черным</label>
+              <span>{settings.blackAmount}%</span>
+            </div>
+            <input
+              type="range" min="0" max="100"
+              value={settings.blackAmount}
+              onChange={(e) => onChange({...settings, blackAmount: Number(e.target.value)})}
+              className={rangeClass}
+            />
+          </div>
+          <div>
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <label>Начало черного</label>
+              <span>{settings.blackStart}%</span>
+            </div>
+            <input
+              type="range" min="0" max="90"
+              value={settings.blackStart}
+              onChange={(e) => onChange({...settings, blackStart: Number(e.target.value)})}
+              className={rangeClass}
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <label>Суммарное покрытие (TAC)</label>
+          <span>{settings.totalInkLimit}%</span>
+        </div>
+        <input
+          type="range" min="100" max="400" step="10"
+          value={settings.totalInkLimit}
+          onChange={(e) => onChange({...settings, totalInkLimit: Number(e.target.value)})}
+          className={rangeClass}
+        />
+      </div>
+    </div>
+  );
+};
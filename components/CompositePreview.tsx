@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Eye, EyeOff, Focus, Shirt } from 'lucide-react';
+import { ChannelResult } from '../types';
+import { CompositeLayer, renderComposite } from '../services/compositeRenderer';
+import { downsampleChannel } from '../services/imageProcessor';
+
+// Longest side the composite is rendered at; the view never shows it larger
+const DISPLAY_MAX_SIDE = 1200;
+
+// Display-size copies by full-size density, so ink and opacity edits don't shrink the channels again
+const displayCopies = new WeakMap<Uint8ClampedArray, Pick<ChannelResult, 'density' | 'width' | 'height'>>();
+
+const displayLayer = <T extends ChannelResult>(channel: T): T => {
+  let copy = displayCopies.get(channel.density);
+  if (!copy) {
+    const { density, width, height } = downsampleChannel(channel, DISPLAY_MAX_SIDE);
+    copy = { density, width, height };
+    displayCopies.set(channel.density, copy);
+  }
+  return { ...channel, ...copy };
+};
+
+interface CompositePreviewProps {
+  channels: (ChannelResult & Pick<CompositeLayer, 'opacity'>)[];
+  initialGarmentColor?: string;
+}
+
+export const CompositePreview: React.FC<CompositePreviewProps> = ({ channels, initialGarmentColor = '#ffffff' }) => {
+  const [garmentColor, setGarmentColor] = useState(initialGarmentColor);
+  const [showUnderbase, setShowUnderbase] = useState(true);
+  const [hidden, setHidden] = useState<number[]>([]);
+  const [solo, setSolo] = useState<number | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const hasUnderbase = channels.some(c => c.isUnderbase);
+
+  // Every new result set starts with all inks visible
+  useEffect(() => {
+    setHidden([]);
+    setSolo(null);
+  }, [channels]);
+
+  // Another job brings its own shirt
+  useEffect(() => setGarmentColor(initialGarmentColor), [initialGarmentColor]);
+
+  // Ink and visibility changes re-render only the display-size copies
+  const layers = useMemo(() => channels.map(displayLayer), [channels]);
+
+  useEffect(() => {
+    if (layers.length === 0 || !canvasRef.current) return;
+
+    const visible = layers.filter((layer, idx) => {
+      if (layer.isUnderbase) return showUnderbase;
+      if (solo !== null) return idx === solo;
+      return !hidden.includes(idx);
+    });
+
+    const { width, height } = layers[0];
+    const canvas = canvasRef.current;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    ctx?.putImageData(renderComposite(visible, width, height, garmentColor), 0, 0);
+  }, [layers, garmentColor, showUnderbase, hidden, solo]);
+
+  const toggleHidden = (idx: number) => {
+    setHidden(hidden.includes(idx) ? hidden.filter(i => i !== idx) : [...hidden, idx]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-3 bg-slate-900 rounded-xl border border-slate-800 flex items-center justify-center p-4 min-h-[400px]">
+        <canvas ref={canvasRef} className="max-w-full max-h-[70vh] object-contain shadow-lg" />
+      </div>
+
+      <div className="space-y-4">
+        <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 space-y-3">
+          <label className="flex items-center justify-between text-sm text-slate-300">
+            <span className="flex items-center gap-2"><Shirt className="w-4 h-4" /> Цвет изделия</span>
+            <input
+              type="color"
+              value={garmentColor}
+              onChange={(e) => setGarmentColor(e.target.value)}
+              className="w-8 h-8 rounded cursor-pointer bg-transparent border-none p-0"
+            />
+          </label>
+          <label className={`flex items-center gap-2 text-sm ${hasUnderbase ? 'text-slate-300 cursor-pointer' : 'text-slate-600'}`}>
+            <input
+              type="checkbox"
+              checked={hasUnderbase && showUnderbase}
+              disabled={!hasUnderbase}
+              onChange={(e) => setShowUnderbase(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+            />
+            Белая подложка
+          </label>
+        </div>
+
+        <div className="bg-slate-900 rounded-xl border border-slate-800 p-2 space-y-1">
+          {channels.map((channel, idx) => channel.isUnderbase ? null : (
+            <div key={idx} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-800/50">
+              <div
+                className="w-4 h-4 rounded-full border border-slate-600"
+                style={{ backgroundColor: channel.colorHex }}
+              />
+              <span className={`text-sm truncate flex-1 ${solo !== null && solo !== idx ? 'text-slate-600' : 'text-slate-300'}`}>
+                {channel.name}
+              </span>
+              <button
+                onClick={() => toggleHidden(idx)}
+                className="p-1 text-slate-500 hover:text-white"
+                title={hidden.includes(idx) ? 'Показать' : 'Скрыть'}
+              >
+                {hidden.includes(idx) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => setSolo(solo === idx ? null : idx)}
+                className={`p-1 ${solo === idx ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}
+                title="Соло"
+              >
+                <Focus className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { DotShape, FilmLayoutSettings, HalftoneMethod, HalftoneSettings, TraceSettings } from '../types';
+import { MAX_FILM_DPI, MIN_FILM_DPI } from '../services/filmOutput';
+
+interface FilmOutputPanelProps {
+  halftone: HalftoneSettings;
+  onHalftoneChange: (value: HalftoneSettings) => void;
+  lpi: number;
+  onLpiChange: (value: number) => void;
+  layout: FilmLayoutSettings;
+  onLayoutChange: (value: FilmLayoutSettings) => void;
+  jobName: string;
+  onJobNameChange: (value: string) => void;
+  trace: TraceSettings;
+  onTraceChange: (value: TraceSettings) => void;
+  isRendering: boolean;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200";
+
+export const FilmOutputPanel: React.FC<FilmOutputPanelProps> = ({
+  halftone,
+  onHalftoneChange,
+  lpi,
+  onLpiChange,
+  layout,
+  onLayoutChange,
+  jobName,
+  onJobNameChange,
+  trace,
+  onTraceChange,
+  isRendering
+}) => {
+  const markToggles: [keyof FilmLayoutSettings, string][] = [
+    ['registrationMarks', 'Приводные кресты'],
+    ['cropMarks', 'Метки обреза'],
+    ['stepWedge', 'Шкала плотности'],
+    ['label', 'Подпись']
+  ];
+
+  return (
+    <div className="px-6 py-4 border-b border-slate-800 bg-slate-900/60 space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Растрирование</label>
+          <div className="flex p-1 bg-slate-800 rounded-lg">
+            {([['none', 'Без растра'], ['am', 'AM'], ['fm', 'FM (стохастика)']] as [HalftoneMethod, string][]).map(([method, label]) => (
+              <button
+                key={method}
+                onClick={() => onHalftoneChange({...halftone, method})}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${halftone.method === method ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {halftone.method === 'am' && (
+          <>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Форма точки</label>
+              <select
+                value={halftone.dotShape}
+                onChange={(e) => onHalftoneChange({...halftone, dotShape: e.target.value as DotShape})}
+                className={`${inputClass} py-1.5`}
+              >
+                <option value="round">Круглая</option>
+                <option value="ellipse">Эллиптическая</option>
+                <option value="square">Квадратная</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Линиатура (LPI)</label>
+              <input
+                type="number" min="10" max="150"
+                value={lpi}
+                onChange={(e) => onLpiChange(Math.max(1, Number(e.target.value)))}
+                className={`w-20 ${inputClass}`}
+              />
+            </div>
+          </>
+        )}
+
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Разрешение вывода (DPI)</label>
+          <input
+            type="number" min={MIN_FILM_DPI} max={MAX_FILM_DPI}
+            value={halftone.dpi}
+            onChange={(e) => onHalftoneChange({...halftone, dpi: Math.min(MAX_FILM_DPI, Math.max(1, Number(e.target.value)))})}
+            onBlur={() => onHalftoneChange({...halftone, dpi: Math.max(MIN_FILM_DPI, halftone.dpi)})}
+            className={`w-20 ${inputClass}`}
+          />
+        </div>
+
+        {isRendering && (
+          <span className="flex items-center gap-2 text-xs text-slate-400 pb-1.5">
+            <RefreshCw className="w-3 h-3 animate-spin" /> Растрирование...
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer pb-1.5">
+          <input
+            type="checkbox"
+            checked={layout.enabled}
+            onChange={(e) => onLayoutChange({...layout, enabled: e.target.checked})}
+            className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+          />
+          Поля с метками
+        </label>
+
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Задание</label>
+          <input
+            type="text"
+            value={jobName}
+            onChange={(e) => onJobNameChange(e.target.value)}
+            className={`w-40 ${inputClass}`}
+          />
+        </div>
+
+        {layout.enabled && (
+          <>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Поле (мм)</label>
+              <input
+                type="number" min="5" max="50"
+                value={layout.marginMm}
+                onChange={(e) => onLayoutChange({...layout, marginMm: Math.max(1, Number(e.target.value))})}
+                className={`w-16 ${inputClass}`}
+              />
+            </div>
+            {markToggles.map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer pb-1.5">
+                <input
+                  type="checkbox"
+                  checked={layout[key] as boolean}
+                  onChange={(e) => onLayoutChange({...layout, [key]: e.target.checked})}
+                  className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Vector export (SVG / PDF) tracing controls */}
+      <div className="flex flex-wrap items-end gap-4">
+        <span className="text-xs text-slate-400 pb-1.5">Векторизация:</span>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Порог ({trace.threshold})</label>
+          <input
+            type="range" min="1" max="255"
+            value={trace.threshold}
+            onChange={(e) => onTraceChange({...trace, threshold: Number(e.target.value)})}
+            className="w-28 h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Сглаживание ({trace.smoothing})</label>
+          <input
+            type="range" min="0" max="5" step="0.5"
+            value={trace.smoothing}
+            onChange={(e) => onTraceChange({...trace, smoothing: Number(e.target.value)})}
+            className="w-28 h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Мин. площадь (px²)</label>
+          <input
+            type="number" min="0" max="10000"
+            value={trace.minArea}
+            onChange={(e) => onTraceChange({...trace, minArea: Math.max(0, Number(e.target.value))})}
+            className={`w-20 ${inputClass}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Shirt } from 'lucide-react';
+import { GarmentKnockout } from '../types';
+
+interface GarmentPanelProps {
+  garmentColor: string;
+  onGarmentColorChange: (value: string) => void;
+  knockout: GarmentKnockout;
+  onKnockoutChange: (value: GarmentKnockout) => void;
+}
+
+const rangeClass = "w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+
+export const GarmentPanel: React.FC<GarmentPanelProps> = ({
+  garmentColor,
+  onGarmentColorChange,
+  knockout,
+  onKnockoutChange
+}) => (
+  <div className="mb-6 space-y-3 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+    <div className="flex items-center justify-between">
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-200">
+        <Shirt className="w-4 h-4 text-slate-400" /> Цвет футболки
+      </label>
+      <input
+        type="color"
+        value={garmentColor}
+        onChange={(e) => onGarmentColorChange(e.target.value)}
+        className="w-10 h-6 rounded cursor-pointer bg-slate-800 border border-slate-700"
+      />
+    </div>
+
+    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={knockout.enabled}
+        onChange={(e) => onKnockoutChange({...knockout, enabled: e.target.checked})}
+        className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+      />
+      Выбить цвет футболки (без краски и подложки)
+    </label>
+
+    {knockout.enabled && (
+      <>
+        <div>
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <label>Допуск (ΔE)</label>
+            <span>{knockout.tolerance}</span>
+          </div>
+          <input
+            type="range" min="0" max="50"
+            value={knockout.tolerance}
+            onChange={(e) => onKnockoutChange({...knockout, tolerance: Number(e.target.value)})}
+            className={rangeClass}
+          />
+        </div>
+        <div>
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <label>Мягкость перехода (ΔE)</label>
+            <span>{knockout.softness}</span>
+          </div>
+          <input
+            type="range" min="1" max="50"
+            value={knockout.softness}
+            onChange={(e) => onKnockoutChange({...knockout, softness: Number(e.target.value)})}
+            className={rangeClass}
+          />
+        </div>
+      </>
+    )}
+  </div>
+);
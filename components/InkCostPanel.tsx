@@ -0,0 +1,50 @@
+import React from 'react';
+import { Droplets } from 'lucide-react';
+import { InkCostSettings, InkEstimate, PrintSize } from '../types';
+import { STANDARD_MESHES } from '../services/jobManifest';
+
+interface InkCostPanelProps {
+  settings: InkCostSettings;
+  onChange: (value: InkCostSettings) => void;
+  estimates: InkEstimate[];
+  printSize: PrintSize;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200";
+
+export const InkCostPanel: React.FC<InkCostPanelProps> = ({ settings, onChange, estimates, printSize }) => {
+  const grams = estimates.reduce((sum, e) => sum + e.grams, 0);
+  const cost = estimates.reduce((sum, e) => sum + e.cost, 0);
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-800 bg-slate-900/60 flex flex-wrap items-end gap-4">
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">Цена краски (₽/кг)</label>
+        <input
+          type="number" min="0" step="100"
+          value={settings.pricePerKg}
+          onChange={(e) => onChange({...settings, pricePerKg: Math.max(0, Number(e.target.value) || 0)})}
+          className={`w-24 ${inputClass}`}
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-slate-400 mb-1">Сетка (нитей/дюйм)</label>
+        <select
+          value={settings.mesh}
+          onChange={(e) => onChange({...settings, mesh: Number(e.target.value)})}
+          className={`${inputClass} py-1.5`}
+        >
+          <option value={0}>Рекомендуемая</option>
+          {STANDARD_MESHES.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+      </div>
+      <div className="text-xs text-slate-400 pb-1.5">
+        Печать {printSize.widthCm.toFixed(1)} × {printSize.heightCm.toFixed(1)} см
+      </div>
+      <div className="flex items-center gap-2 text-sm text-slate-200 pb-1 ml-auto">
+        <Droplets className="w-4 h-4 text-indigo-400" />
+        ≈ {grams.toFixed(1)} г / оттиск · {cost.toFixed(2)} ₽
+      </div>
+    </div>
+  );
+};
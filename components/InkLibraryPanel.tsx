@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Palette, Upload, Download, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Ink } from '../types';
+import { hexToLab } from '../services/colorScience';
+import { createInk } from '../services/inkLibrary';
+import { STANDARD_MESHES } from '../services/jobManifest';
+import { SWATCH_EXTENSIONS, SwatchFormat } from '../services/swatchFiles';
+
+interface InkLibraryPanelProps {
+  inks: Ink[];
+  onChange: (inks: Ink[]) => void;
+  onPick: (ink: Ink) => void;
+  onImport: (file: File) => void;
+  onExport: (format: SwatchFormat) => void;
+}
+
+const EXPORT_FORMATS: SwatchFormat[] = ['ase', 'aco', 'gpl'];
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200";
+
+export const InkLibraryPanel: React.FC<InkLibraryPanelProps> = ({ inks, onChange, onPick, onImport, onExport }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const updateInk = (id: string, patch: Partial<Ink>) => {
+    onChange(inks.map(ink => (ink.id === id ? { ...ink, ...patch } : ink)));
+  };
+
+  return (
+    <div className="space-y-2 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-400 flex items-center gap-1">
+          <Palette className="w-3 h-3" /> Библиотека красок
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            ref={importRef}
+            accept={SWATCH_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+          <button onClick={() => importRef.current?.click()} className="text-slate-500 hover:text-slate-300" title="Импорт ASE, ACO или GPL">
+            <Upload className="w-3.5 h-3.5" />
+          </button>
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              disabled={inks.length === 0}
+              className="text-[10px] uppercase text-slate-500 hover:text-slate-300 flex items-center disabled:opacity-50"
+              title={`Экспорт в .${format}`}
+            >
+              <Download className="w-3 h-3" />{format}
+            </button>
+          ))}
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={isEditing ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}
+            title="Редактировать библиотеку"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {!isEditing && (
+        <div className="flex flex-wrap gap-1.5">
+          {inks.map(ink => (
+            <button
+              key={ink.id}
+              onClick={() => onPick(ink)}
+              className="flex items-center gap-1.5 pl-1 pr-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 hover:border-indigo-500 text-xs text-slate-300"
+              title={`Добавить ${ink.name} (${ink.hex.toUpperCase()})`}
+            >
+              <span className="w-3.5 h-3.5 rounded-full border border-slate-600" style={{ backgroundColor: ink.hex }} />
+              {ink.name}
+            </button>
+          ))}
+          {inks.length === 0 && <p className="text-xs text-slate-500">Библиотека пуста</p>}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="space-y-2">
+          {inks.map(ink => (
+            <div key={ink.id} className="flex items-center gap-1.5">
+              <input
+                type="color"
+                value={ink.hex}
+                onChange={(e) => updateInk(ink.id, { hex: e.target.value, lab: hexToLab(e.target.value) })}
+                className="w-7 h-7 shrink-0 rounded cursor-pointer bg-slate-800 border border-slate-700 p-0.5"
+                title={`Lab ${ink.lab.map(v => v.toFixed(1)).join(' / ')}`}
+              />
+              <input
+                type="text"
+                value={ink.name}
+                onChange={(e) => updateInk(ink.id, { name: e.target.value })}
+                className={`flex-1 min-w-0 ${inputClass}`}
+              />
+              <input
+                type="number" min="0" max="100"
+                value={ink.opacity ?? ''}
+                placeholder="укр. %"
+                onChange={(e) => updateInk(ink.id, { opacity: e.target.value === '' ? undefined : Math.max(0, Math.min(100, Number(e.target.value))) })}
+                className={`w-16 ${inputClass}`}
+                title="Укрывистость, %"
+              />
+              <select
+                value={ink.mesh ?? 0}
+                onChange={(e) => updateInk(ink.id, { mesh: Number(e.target.value) || undefined })}
+                className={`${inputClass} py-1.5`}
+                title="Рекомендуемая сетка"
+              >
+                <option value={0}>—</option>
+                {STANDARD_MESHES.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <button onClick={() => onChange(inks.filter(i => i.id !== ink.id))} className="text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange([...inks, createInk('Новая краска', '#808080')])}
+            className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Добавить краску
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Sparkles, RefreshCw } from 'lucide-react';
+import { Button } from './Button';
+import { GOOD_PALETTE_ERROR, PaletteCandidate } from '../services/paletteSolver';
+
+interface PalettePanelProps {
+  candidates: PaletteCandidate[];
+  recommended?: PaletteCandidate;
+  selected: number; // Ink count of the chosen candidate
+  onSelect: (count: number) => void;
+  onApply: (candidate: PaletteCandidate) => void;
+  onSolve: () => void;
+  onAddColor: (hex: string) => void;
+  isSolving: boolean;
+  lockedCount: number;
+}
+
+export const PalettePanel: React.FC<PalettePanelProps> = ({
+  candidates, recommended, selected, onSelect, onApply, onSolve, onAddColor, isSolving, lockedCount
+}) => {
+  const current = candidates.find(c => c.colors.length === selected);
+
+  return (
+    <div className="space-y-2 bg-slate-800/30 p-3 rounded-lg border border-slate-700/50">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-400">
+          Подбор палитры{lockedCount > 0 && <span className="text-slate-500"> · закреплено {lockedCount}</span>}
+        </p>
+        <button
+          onClick={onSolve}
+          disabled={isSolving}
+          className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3 h-3 ${isSolving ? 'animate-spin' : ''}`} /> Пересчитать
+        </button>
+      </div>
+
+      {candidates.length > 0 && (
+        <>
+          <div className="space-y-1 max-h-56 overflow-y-auto">
+            {candidates.map(candidate => {
+              const count = candidate.colors.length;
+              return (
+                <div
+                  key={count}
+                  onClick={() => onSelect(count)}
+                  className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer ${count === selected ? 'bg-indigo-500/20 border border-indigo-500/50' : 'border border-transparent hover:bg-slate-800'}`}
+                >
+                  <span className="w-4 text-xs text-slate-400 text-right">{count}</span>
+                  <div className="flex flex-1 flex-wrap gap-1">
+                    {candidate.colors.map((color, idx) => (
+                      <button
+                        key={idx}
+                        onClick={(e) => { e.stopPropagation(); onAddColor(color); }}
+                        className={`w-4 h-4 rounded-full border hover:scale-125 transition-transform ${idx < lockedCount ? 'border-indigo-400' : 'border-slate-600'}`}
+                        style={{ backgroundColor: color }}
+                        title={`Добавить ${color}`}
+                      />
+                    ))}
+                  </div>
+                  <span
+                    className={`text-xs tabular-nums ${candidate.error <= GOOD_PALETTE_ERROR ? 'text-emerald-400' : 'text-slate-500'}`}
+                    title="Средняя ошибка воспроизведения (ΔE2000)"
+                  >
+                    ΔE {candidate.error.toFixed(1)}
+                  </span>
+                  {candidate === recommended && <Sparkles className="w-3 h-3 text-amber-400" />}
+                </div>
+              );
+            })}
+          </div>
+          <Button onClick={() => current && onApply(current)} disabled={!current || current.colors.length === 0} variant="secondary" fullWidth className="text-xs py-1.5">
+            Применить {selected} {selected === 1 ? 'краску' : selected < 5 ? 'краски' : 'красок'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
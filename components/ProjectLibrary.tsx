@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo } from 'react';
+import { Clock, Trash2 } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, onOpen, onDelete }) => {
+  const thumbnails = useMemo(
+    () => new Map(projects.map(p => [p.id, URL.createObjectURL(p.thumbnail)])),
+    [projects]
+  );
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-3xl mt-10">
+      <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2 mb-3">
+        <Clock className="w-4 h-4" />
+        Недавние проекты
+      </h3>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            onClick={() => onOpen(project.id)}
+            className="group relative bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden cursor-pointer hover:border-indigo-500 transition-colors"
+          >
+            <div className="aspect-square bg-slate-900 flex items-center justify-center">
+              <img src={thumbnails.get(project.id)} alt={project.name} className="max-w-full max-h-full object-contain" />
+            </div>
+            <div className="p-2">
+              <p className="text-sm font-medium truncate">{project.name || 'Без названия'}</p>
+              <p className="text-xs text-slate-500">{new Date(project.updatedAt).toLocaleString('ru-RU')}</p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(project.id);
+              }}
+              className="absolute top-2 right-2 p-1 rounded bg-slate-900/80 text-slate-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Удалить из библиотеки"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { UnderbaseSettings } from '../types';
+
+interface UnderbaseSettingsPanelProps {
+  settings: UnderbaseSettings;
+  onChange: (value: UnderbaseSettings) => void;
+}
+
+const rangeClass = "w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500";
+
+export const UnderbaseSettingsPanel: React.FC<UnderbaseSettingsPanelProps> = ({ settings, onChange }) => {
+  const sliders: [keyof UnderbaseSettings, string, number, number, string][] = [
+    ['choke', settings.choke >= 0 ? 'Сжатие' : 'Расширение', -5, 10, ' px'],
+    ['darkPullback', 'Ослабление под темным', 0, 100, '%'],
+    ['maxDensity', 'Плотность подложки', 10, 100, '%']
+  ];
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-3">
+      {sliders.map(([key, label, min, max, unit]) => (
+        <div key={key}>
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <label>{label}</label>
+            <span>{Math.abs(settings[key] as number)}{unit}</span>
+          </div>
+          <input
+            type="range" min={min} max={max}
+            value={settings[key] as number}
+            onChange={(e) => onChange({...settings, [key]: Number(e.target.value)})}
+            className={rangeClass}
+          />
+        </div>
+      ))}
+
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.highlightWhite}
+          onChange={(e) => onChange({...settings, highlightWhite: e.target.checked})}
+          className="rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+        />
+        Белый для бликов
+      </label>
+
+      {settings.highlightWhite && (
+        <div>
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <label>Порог яркости бликов</label>
+            <span>{settings.highlightThreshold}%</span>
+          </div>
+          <input
+            type="range" min="50" max="99"
+            value={settings.highlightThreshold}
+            onChange={(e) => onChange({...settings, highlightThreshold: Number(e.target.value)})}
+            className={rangeClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+/*
+ * Big-endian byte sink for the small binary sections of the file writers:
+ * PSD headers and resources, swatch files.
+ */
+
+export interface ByteWriter {
+  readonly length: number;
+  u8: (value: number) => void;
+  u16: (value: number) => void;
+  u32: (value: number) => void;
+  f32: (value: number) => void;
+  raw: (values: ArrayLike<number>) => void;
+  ascii: (text: string) => void;  // One byte per character, '?' outside ASCII
+  utf16: (text: string) => void;  // UTF-16BE code units followed by a terminating zero
+  toArray: () => Uint8Array;
+}
+
+export const createByteWriter = (): ByteWriter => {
+  const bytes: number[] = [];
+  const u8 = (value: number) => { bytes.push(value & 0xff); };
+  const u16 = (value: number) => { u8(value >> 8); u8(value); };
+  const u32 = (value: number) => { u16(value >>> 16); u16(value & 0xffff); };
+  const scratch = new DataView(new ArrayBuffer(4));
+
+  return {
+    get length() { return bytes.length; },
+    u8,
+    u16,
+    u32,
+    f32: (value) => {
+      scratch.setFloat32(0, value);
+      u32(scratch.getUint32(0));
+    },
+    raw: (values) => { for (let i = 0; i < values.length; i++) u8(values[i]); },
+    ascii: (text) => { for (const ch of text) u8(ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 0x3f); },
+    utf16: (text) => {
+      for (let i = 0; i < text.length; i++) u16(text.charCodeAt(i));
+      u16(0);
+    },
+    toArray: () => new Uint8Array(bytes)
+  };
+};
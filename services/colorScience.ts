@@ -0,0 +1,228 @@
+import { ColorMetric } from '../types';
+
+export type Lab = [number, number, number];
+
+// Reference whites, Y normalized to 1: D65 for sRGB, D50 for the ICC PCS
+export const D65_WHITE: [number, number, number] = [0.95047, 1.0, 1.08883];
+export const D50_WHITE: [number, number, number] = [0.9642, 1.0, 0.8249];
+
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+// sRGB 8-bit value -> linear light
+const LINEAR_LUT = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  LINEAR_LUT[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * 8-bit sRGB component to linear light (0-1).
+ */
+export const srgbToLinear = (v: number): number => LINEAR_LUT[Math.round(v)];
+
+export const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16)
+];
+
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  return `#${((1 << 24) + (clamp(r) << 16) + (clamp(g) << 8) + clamp(b)).toString(16).slice(1)}`;
+};
+
+/**
+ * 8-bit sRGB to CIE XYZ (D65).
+ */
+export const rgbToXyz = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = LINEAR_LUT[Math.round(r)];
+  const lg = LINEAR_LUT[Math.round(g)];
+  const lb = LINEAR_LUT[Math.round(b)];
+  return [
+    0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb,
+    0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb,
+    0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb
+  ];
+};
+
+const labF = (t: number): number => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+
+export const xyzToLab = (x: number, y: number, z: number, white = D65_WHITE): Lab => {
+  const fx = labF(x / white[0]);
+  const fy = labF(y / white[1]);
+  const fz = labF(z / white[2]);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const [x, y, z] = rgbToXyz(r, g, b);
+  return xyzToLab(x, y, z);
+};
+
+/**
+ * 8-bit sRGB to CIE XYZ adapted to D50 (Bradford), as used by ICC profiles.
+ */
+export const rgbToXyzD50 = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = LINEAR_LUT[Math.round(r)];
+  const lg = LINEAR_LUT[Math.round(g)];
+  const lb = LINEAR_LUT[Math.round(b)];
+  return [
+    0.4360747 * lr + 0.3850649 * lg + 0.1430804 * lb,
+    0.2225045 * lr + 0.7168786 * lg + 0.0606169 * lb,
+    0.0139322 * lr + 0.0971045 * lg + 0.7141733 * lb
+  ];
+};
+
+export const hexToLab = (hex: string): Lab => {
+  const [r, g, b] = hexToRgb(hex);
+  return rgbToLab(r, g, b);
+};
+
+const labFInverse = (f: number): number => (f ** 3 > EPSILON ? f ** 3 : (116 * f - 16) / KAPPA);
+
+const linearToSrgb = (v: number): number => {
+  const c = Math.max(0, Math.min(1, v));
+  return 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+};
+
+const labToXyz = (lab: Lab, white: [number, number, number]): [number, number, number] => {
+  const fy = (lab[0] + 16) / 116;
+  const fx = fy + lab[1] / 500;
+  const fz = fy - lab[2] / 200;
+  return [
+    labFInverse(fx) * white[0],
+    (lab[0] > KAPPA * EPSILON ? fy ** 3 : lab[0] / KAPPA) * white[1],
+    labFInverse(fz) * white[2]
+  ];
+};
+
+/**
+ * Lab under D65 to Lab under D50 (Bradford adaptation), the white point of
+ * the ICC PCS and of Lab in Adobe swatch files.
+ */
+export const labD65ToD50 = (lab: Lab): Lab => {
+  const [x, y, z] = labToXyz(lab, D65_WHITE);
+  return xyzToLab(
+    1.0478112 * x + 0.0228866 * y - 0.0501270 * z,
+    0.0295424 * x + 0.9904844 * y - 0.0170491 * z,
+    -0.0092345 * x + 0.0150436 * y + 0.7521316 * z,
+    D50_WHITE
+  );
+};
+
+/**
+ * Lab under D50 to Lab under D65 (Bradford adaptation).
+ */
+export const labD50ToD65 = (lab: Lab): Lab => {
+  const [x, y, z] = labToXyz(lab, D50_WHITE);
+  return xyzToLab(
+    0.9555766 * x - 0.0230393 * y + 0.0631636 * z,
+    -0.0282895 * x + 1.0099416 * y + 0.0210077 * z,
+    0.0122982 * x - 0.0204830 * y + 1.3299098 * z
+  );
+};
+
+/**
+ * CIE Lab (D65) to 8-bit sRGB. Colors outside the sRGB gamut are clipped.
+ */
+export const labToRgb = (lab: Lab): [number, number, number] => {
+  const [x, y, z] = labToXyz(lab, D65_WHITE);
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)
+  ];
+};
+
+export const deltaE76 = (a: Lab, b: Lab): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+/**
+ * CIE94 with graphic arts weighting (kL = 1, K1 = 0.045, K2 = 0.015).
+ */
+export const deltaE94 = (a: Lab, b: Lab): number => {
+  const dL = a[0] - b[0];
+  const c1 = Math.hypot(a[1], a[2]);
+  const c2 = Math.hypot(b[1], b[2]);
+  const dC = c1 - c2;
+  const da = a[1] - b[1];
+  const db = a[2] - b[2];
+  const dH2 = Math.max(0, da * da + db * db - dC * dC);
+  const sC = 1 + 0.045 * c1;
+  const sH = 1 + 0.015 * c1;
+  return Math.sqrt(dL * dL + (dC / sC) ** 2 + dH2 / (sH * sH));
+};
+
+const deg = (rad: number) => (rad * 180) / Math.PI;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+/**
+ * CIEDE2000 (kL = kC = kH = 1).
+ */
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cMean7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : (deg(Math.atan2(b1, a1p)) + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (deg(Math.atan2(b2, a2p)) + 360) % 360;
+
+  const dLp = L2 - L1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(rad(dhp / 2));
+
+  const lMean = (L1 + L2) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMeanP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hMeanP /= 2;
+    else hMeanP = h1p + h2p < 360 ? (hMeanP + 360) / 2 : (hMeanP - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(rad(hMeanP - 30))
+    + 0.24 * Math.cos(rad(2 * hMeanP))
+    + 0.32 * Math.cos(rad(3 * hMeanP + 6))
+    - 0.20 * Math.cos(rad(4 * hMeanP - 63));
+
+  const dTheta = 30 * Math.exp(-(((hMeanP - 275) / 25) ** 2));
+  const cMeanP7 = Math.pow(cMeanP, 7);
+  const rC = 2 * Math.sqrt(cMeanP7 / (cMeanP7 + Math.pow(25, 7)));
+  const lOffset = (lMean - 50) ** 2;
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * cMeanP;
+  const sH = 1 + 0.015 * cMeanP * t;
+  const rT = -Math.sin(rad(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 +
+    (dCp / sC) ** 2 +
+    (dHp / sH) ** 2 +
+    rT * (dCp / sC) * (dHp / sH)
+  );
+};
+
+export const getDeltaE = (metric: ColorMetric): ((a: Lab, b: Lab) => number) => {
+  switch (metric) {
+    case 'de76': return deltaE76;
+    case 'de94': return deltaE94;
+    case 'de2000':
+    default:
+      return deltaE2000;
+  }
+};
@@ -0,0 +1,72 @@
+export interface CompositeLayer {
+  density: Uint8ClampedArray;
+  colorHex: string;
+  isUnderbase?: boolean;
+  opaque?: boolean;
+  opacity?: number; // 0-1 share of the ink that covers rather than filters; overrides `opaque`
+}
+
+const hexToUnitRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255
+];
+
+/**
+ * Simulates the printed result of stacking the given layers on a garment.
+ *
+ * The underbase is an opaque white laid down first and opaque inks (such as a
+ * highlight white) cover what is below them; every other ink is treated as a
+ * subtractive filter, multiplying whatever is below it by its color in
+ * proportion to its density. Inks of partial opacity mix the two. Layers are
+ * printed in array order.
+ */
+export const renderComposite = (
+  layers: CompositeLayer[],
+  width: number,
+  height: number,
+  garmentColor: string
+): ImageData => {
+  const out = new ImageData(width, height);
+  const [gr, gg, gb] = hexToUnitRgb(garmentColor);
+  const inks = layers.map(layer => ({
+    ...layer,
+    rgb: layer.isUnderbase ? [1, 1, 1] : hexToUnitRgb(layer.colorHex),
+    cover: layer.isUnderbase ? 1 : layer.opacity ?? (layer.opaque ? 1 : 0)
+  }));
+
+  const len = width * height;
+  for (let i = 0; i < len; i++) {
+    let r = gr;
+    let g = gg;
+    let b = gb;
+
+    for (const ink of inks) {
+      const d = ink.density[i] / 255;
+      if (d === 0) continue;
+
+      if (ink.cover === 1) {
+        r += (ink.rgb[0] - r) * d;
+        g += (ink.rgb[1] - g) * d;
+        b += (ink.rgb[2] - b) * d;
+      } else if (ink.cover === 0) {
+        r *= 1 - d + d * ink.rgb[0];
+        g *= 1 - d + d * ink.rgb[1];
+        b *= 1 - d + d * ink.rgb[2];
+      } else {
+        const c = ink.cover;
+        r = (1 - c) * r * (1 - d + d * ink.rgb[0]) + c * (r + (ink.rgb[0] - r) * d);
+        g = (1 - c) * g * (1 - d + d * ink.rgb[1]) + c * (g + (ink.rgb[1] - g) * d);
+        b = (1 - c) * b * (1 - d + d * ink.rgb[2]) + c * (b + (ink.rgb[2] - b) * d);
+      }
+    }
+
+    const idx = i * 4;
+    out.data[idx] = r * 255;
+    out.data[idx + 1] = g * 255;
+    out.data[idx + 2] = b * 255;
+    out.data[idx + 3] = 255;
+  }
+
+  return out;
+};
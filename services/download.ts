@@ -0,0 +1,27 @@
+/**
+ * Triggers a browser download for a URL (data URL or object URL).
+ */
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Triggers a browser download for generated binary content.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Strips characters that are not allowed in file names.
+ */
+export const safeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'channel';
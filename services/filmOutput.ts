@@ -0,0 +1,354 @@
+import { ChannelRaster, ChannelResult, FilmLayoutSettings, HalftoneSettings } from '../types';
+import { createScreen } from './halftone';
+import { PREVIEW_MAX_SIDE } from './imageProcessor';
+import { writeDensityPng } from './pngWriter';
+import { STRIP_ROWS, stripContext } from './stripCanvas';
+
+type ChannelDensity = Pick<ChannelResult, 'density' | 'width' | 'height'>;
+
+const MM_PER_INCH = 25.4;
+const CM_PER_INCH = 2.54;
+
+// Output resolutions and print widths the film inputs accept; past these a
+// single film no longer fits in a browser tab
+export const MIN_FILM_DPI = 72;
+export const MAX_FILM_DPI = 1440;
+export const MAX_PRINT_WIDTH_CM = 50;
+// Number of patches in the density control strip (0%, 10% ... 100%)
+const WEDGE_STEPS = 11;
+
+export interface FilmLabel {
+  jobName: string;
+  order: number; // 1-based print order
+  total: number;
+}
+
+/**
+ * Resolution, in pixels per inch, an image `widthPx` wide prints at when the
+ * artwork is `printWidthCm` wide on the shirt.
+ */
+export const imagePpi = (widthPx: number, printWidthCm: number): number =>
+  widthPx / (printWidthCm / CM_PER_INCH);
+
+// Pixel size of the artwork on film: the print size at the output resolution
+const artworkSize = (channel: ChannelDensity, halftone: HalftoneSettings, printWidthCm: number) => {
+  const width = Math.max(1, Math.round((printWidthCm / CM_PER_INCH) * halftone.dpi));
+  return { width, height: Math.max(1, Math.round((channel.height * width) / channel.width)) };
+};
+
+/**
+ * Scales a density map to `outWidth` x `outHeight` one output row at a time:
+ * bilinear when enlarging, box-filtered when shrinking so fine detail
+ * doesn't alias. The returned function writes row `y` into `out` at `offset`.
+ */
+const createRowResampler = (source: ChannelDensity, outWidth: number, outHeight: number) => {
+  const { density, width, height } = source;
+  const sx = width / outWidth;
+  const sy = height / outHeight;
+
+  if (sx > 1 || sy > 1) {
+    return (y: number, out: Uint8ClampedArray, offset: number) => {
+      const y0 = Math.min(height - 1, Math.floor(y * sy));
+      const y1 = Math.max(y0 + 1, Math.min(height, Math.floor((y + 1) * sy)));
+      for (let x = 0; x < outWidth; x++) {
+        const x0 = Math.min(width - 1, Math.floor(x * sx));
+        const x1 = Math.max(x0 + 1, Math.min(width, Math.floor((x + 1) * sx)));
+        let sum = 0;
+        for (let yy = y0; yy < y1; yy++) {
+          for (let xx = x0; xx < x1; xx++) sum += density[yy * width + xx];
+        }
+        out[offset + x] = sum / ((y1 - y0) * (x1 - x0));
+      }
+    };
+  }
+
+  return (y: number, out: Uint8ClampedArray, offset: number) => {
+    const fy = Math.min(height - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const wy = fy - y0;
+    for (let x = 0; x < outWidth; x++) {
+      const fx = Math.min(width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const wx = fx - x0;
+      const top = density[y0 * width + x0] + (density[y0 * width + x1] - density[y0 * width + x0]) * wx;
+      const bottom = density[y1 * width + x0] + (density[y1 * width + x1] - density[y1 * width + x0]) * wx;
+      out[offset + x] = top + (bottom - top) * wy;
+    }
+  };
+};
+
+// Margin around the artwork, never so thin the marks collide
+const filmMargin = (layout: FilmLayoutSettings, dpi: number): number =>
+  Math.max(8, Math.round((layout.marginMm / MM_PER_INCH) * dpi));
+
+// Side and top edge of the step wedge patches, below the artwork box
+const wedgeGeometry = (width: number, height: number, m: number) => {
+  // Patches shrink on narrow films to stay clear of the bottom crosshair
+  const size = Math.max(1, Math.min(m * 0.35, ((width + m * 2) / 2 - m * 1.3) / WEDGE_STEPS));
+  return { size, top: m + height + (m - size) / 2 };
+};
+
+/**
+ * Draws the density step wedge for an artwork box of `width` x `height`
+ * inside a margin of `m` pixels. The patches are tones, so they are screened
+ * with the artwork.
+ */
+const drawWedge = (ctx: OffscreenCanvasRenderingContext2D, width: number, height: number, m: number) => {
+  const { size, top } = wedgeGeometry(width, height, m);
+  for (let step = 0; step < WEDGE_STEPS; step++) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${step / (WEDGE_STEPS - 1)})`;
+    ctx.fillRect(m + step * size, top, size, size);
+  }
+};
+
+/**
+ * Draws the registration crosshairs, crop marks, step wedge outline and
+ * caption for an artwork box of `width` x `height` inside a margin of `m`
+ * pixels.
+ */
+const drawMarks = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  m: number,
+  layout: FilmLayoutSettings,
+  dpi: number,
+  channel: ChannelResult,
+  label: FilmLabel
+) => {
+  const fullWidth = width + m * 2;
+  const fullHeight = height + m * 2;
+  const lineWidth = Math.max(1, Math.round(dpi / 300));
+  ctx.strokeStyle = '#000';
+  ctx.fillStyle = '#000';
+  ctx.lineWidth = lineWidth;
+
+  if (layout.registrationMarks) {
+    const r = m * 0.18;
+    const marks = [
+      [fullWidth / 2, m / 2],
+      [fullWidth / 2, fullHeight - m / 2],
+      [m / 2, fullHeight / 2],
+      [fullWidth - m / 2, fullHeight / 2]
+    ];
+    for (const [x, y] of marks) {
+      ctx.beginPath();
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+      ctx.moveTo(x - r * 1.6, y);
+      ctx.lineTo(x + r * 1.6, y);
+      ctx.moveTo(x, y - r * 1.6);
+      ctx.lineTo(x, y + r * 1.6);
+      ctx.stroke();
+    }
+  }
+
+  if (layout.cropMarks) {
+    const gap = m * 0.15;
+    const len = m * 0.45;
+    const corners: [number, number, number, number][] = [
+      [m, m, -1, -1],
+      [m + width, m, 1, -1],
+      [m, m + height, -1, 1],
+      [m + width, m + height, 1, 1]
+    ];
+    ctx.beginPath();
+    for (const [x, y, dx, dy] of corners) {
+      ctx.moveTo(x + dx * gap, y);
+      ctx.lineTo(x + dx * (gap + len), y);
+      ctx.moveTo(x, y + dy * gap);
+      ctx.lineTo(x, y + dy * (gap + len));
+    }
+    ctx.stroke();
+  }
+
+  if (layout.stepWedge) {
+    const { size, top } = wedgeGeometry(width, height, m);
+    ctx.strokeRect(m, top, WEDGE_STEPS * size, size);
+  }
+
+  if (layout.label) {
+    const fontSize = Math.max(8, Math.round(m * 0.2));
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    const text = `${label.jobName} | ${channel.name} | ${channel.colorHex.toUpperCase()} | ${label.order}/${label.total}`;
+    ctx.fillText(text, m, m / 2, Math.max(1, fullWidth / 2 - m * 1.5));
+  }
+};
+
+/**
+ * Rasterizes a vector drawing over one strip of a film, `top` rows down.
+ * Tones are blended in (source-over on alpha); `solid` drawings are
+ * thresholded to full density instead, so they stay crisp on a screened film.
+ */
+const overlayStrip = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  strip: Uint8ClampedArray,
+  top: number,
+  rows: number,
+  draw: (ctx: OffscreenCanvasRenderingContext2D) => void,
+  solid: boolean
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.setTransform(1, 0, 0, 1, 0, -top);
+  draw(ctx);
+
+  const px = ctx.getImageData(0, 0, width, rows).data;
+  for (let i = 0; i < width * rows; i++) {
+    const a = px[i * 4 + 3];
+    if (a === 0) continue;
+    if (solid) {
+      if (a >= 128) strip[i] = 255;
+    } else {
+      strip[i] = a + (strip[i] * (255 - a)) / 255;
+    }
+  }
+};
+
+/**
+ * A channel's film as strips of STRIP_ROWS rows, rendered top to bottom as
+ * the consumer reaches them: the separation scaled to the print width at the
+ * output resolution, then halftone screening at the channel's angle and
+ * ruling. With the film layout on, the artwork sits in a margin and only the
+ * artwork and the step wedge are screened; crosshairs, crop marks and
+ * caption go on solid after.
+ *
+ * Every strip reuses one buffer, so it has to be consumed before the next is
+ * requested. Every mark is positioned relative to the artwork box only, so
+ * films of the same job line up when the crosshairs are overlaid.
+ */
+export const filmStrips = (
+  channel: ChannelResult,
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number,
+  label: FilmLabel
+): Iterable<Uint8ClampedArray> => ({
+  *[Symbol.iterator]() {
+    const art = artworkSize(channel, halftone, printWidthCm);
+    const m = layout.enabled ? filmMargin(layout, halftone.dpi) : 0;
+    const width = art.width + m * 2;
+    const height = art.height + m * 2;
+    const stripRows = Math.min(STRIP_ROWS, height);
+
+    const resampleRow = createRowResampler(channel, art.width, art.height);
+    const screen = createScreen(width, halftone, channel.screenAngle, channel.lpi);
+    const ctx = layout.enabled ? stripContext(width, stripRows) : null;
+    const buffer = new Uint8ClampedArray(width * stripRows);
+
+    for (let top = 0; top < height; top += STRIP_ROWS) {
+      const rows = Math.min(STRIP_ROWS, height - top);
+      const strip = buffer.subarray(0, rows * width);
+      strip.fill(0);
+      for (let row = 0; row < rows; row++) {
+        const y = top + row - m;
+        if (y >= 0 && y < art.height) resampleRow(y, strip, row * width + m);
+      }
+
+      if (ctx && layout.stepWedge) overlayStrip(ctx, strip, top, rows, c => drawWedge(c, art.width, art.height, m), false);
+      screen(strip, top, rows);
+      if (ctx) overlayStrip(ctx, strip, top, rows, c => drawMarks(c, art.width, art.height, m, layout, halftone.dpi, channel, label), true);
+      yield strip;
+    }
+  }
+});
+
+/**
+ * Produces the final film for a channel as one density map (see filmStrips).
+ */
+export const renderFilm = (
+  channel: ChannelResult,
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number,
+  label: FilmLabel
+): ChannelResult => {
+  const { width, height } = filmSize(channel, halftone, layout, printWidthCm);
+  const density = new Uint8ClampedArray(width * height);
+  let offset = 0;
+  for (const strip of filmStrips(channel, halftone, layout, printWidthCm, label)) {
+    density.set(strip, offset);
+    offset += strip.length;
+  }
+  return { ...channel, density, width, height };
+};
+
+/**
+ * Encodes a channel's film as a PNG straight from its strips, without
+ * holding the film whole.
+ */
+export const filmPng = (
+  channel: ChannelResult,
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number,
+  label: FilmLabel
+): Promise<Blob> => {
+  const { width, height } = filmSize(channel, halftone, layout, printWidthCm);
+  return writeDensityPng(width, height, filmStrips(channel, halftone, layout, printWidthCm, label));
+};
+
+/**
+ * The film rendered whole at a resolution that fits `maxSide`, for the
+ * screen. The screen cells shrink with it, so the preview shows the film as
+ * it will look, only smaller.
+ */
+export const previewFilm = (
+  channel: ChannelResult,
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number,
+  label: FilmLabel,
+  maxSide: number = PREVIEW_MAX_SIDE
+): ChannelResult => {
+  const full = filmSize(channel, halftone, layout, printWidthCm);
+  const scale = Math.min(1, maxSide / Math.max(full.width, full.height));
+  return renderFilm(channel, { ...halftone, dpi: halftone.dpi * scale }, layout, printWidthCm, label);
+};
+
+/**
+ * Pixel size of a channel's film, without rendering it.
+ */
+export const filmSize = (
+  channel: ChannelDensity,
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number
+): { width: number; height: number } => {
+  const { width, height } = artworkSize(channel, halftone, printWidthCm);
+  const m = layout.enabled ? filmMargin(layout, halftone.dpi) : 0;
+  return { width: width + m * 2, height: height + m * 2 };
+};
+
+/**
+ * The films of a job, each rendered strip by strip only when the consumer
+ * reaches it.
+ *
+ * Films aren't kept: the screen shows downsampled previews, and exports
+ * write each strip out before the next is rendered, so not even one
+ * print-size film exists next to the separations. The price is screening
+ * every film again for each export.
+ */
+export const lazyFilms = (
+  channels: ChannelResult[],
+  halftone: HalftoneSettings,
+  layout: FilmLayoutSettings,
+  printWidthCm: number,
+  jobName: string
+): Iterable<ChannelRaster> => ({
+  *[Symbol.iterator]() {
+    for (let idx = 0; idx < channels.length; idx++) {
+      const channel = channels[idx];
+      const label = { jobName, order: idx + 1, total: channels.length };
+      yield {
+        name: channel.name,
+        colorHex: channel.colorHex,
+        ...filmSize(channel, halftone, layout, printWidthCm),
+        strips: filmStrips(channel, halftone, layout, printWidthCm, label)
+      };
+    }
+  }
+});
@@ -0,0 +1,140 @@
+import { DotShape, HalftoneSettings } from '../types';
+
+// Resolution of the spot-function -> coverage lookup table
+const LUT_SIZE = 1024;
+// Samples per cell side used to linearize the spot function
+const CELL_SAMPLES = 64;
+// Minor/major axis ratio of the elliptical dot
+const ELLIPSE_RATIO = 0.7;
+
+/**
+ * Spot function for a position inside the halftone cell.
+ * x and y are in [-1, 1] with the dot centered at (0, 0); the result is
+ * normalized to [0, 1] where lower values are inked first.
+ */
+const spotValue = (shape: DotShape, x: number, y: number): number => {
+  switch (shape) {
+    case 'square':
+      return Math.max(Math.abs(x), Math.abs(y));
+    case 'ellipse': {
+      const ey = y / ELLIPSE_RATIO;
+      return (x * x + ey * ey) / (1 + 1 / (ELLIPSE_RATIO * ELLIPSE_RATIO));
+    }
+    case 'round':
+    default:
+      return (x * x + y * y) / 2;
+  }
+};
+
+const lutCache = new Map<DotShape, Float32Array>();
+
+/**
+ * Maps a raw spot value to the fraction of the cell that is inked before it.
+ * Thresholding against this rank makes the printed dot area proportional to
+ * the requested density, whatever the dot shape.
+ */
+const getThresholdLut = (shape: DotShape): Float32Array => {
+  const cached = lutCache.get(shape);
+  if (cached) return cached;
+
+  const histogram = new Uint32Array(LUT_SIZE);
+  for (let sy = 0; sy < CELL_SAMPLES; sy++) {
+    for (let sx = 0; sx < CELL_SAMPLES; sx++) {
+      const x = ((sx + 0.5) / CELL_SAMPLES) * 2 - 1;
+      const y = ((sy + 0.5) / CELL_SAMPLES) * 2 - 1;
+      const v = Math.min(1, spotValue(shape, x, y));
+      histogram[Math.round(v * (LUT_SIZE - 1))]++;
+    }
+  }
+
+  const lut = new Float32Array(LUT_SIZE);
+  const total = CELL_SAMPLES * CELL_SAMPLES;
+  let cumulative = 0;
+  for (let i = 0; i < LUT_SIZE; i++) {
+    cumulative += histogram[i];
+    lut[i] = cumulative / total;
+  }
+
+  lutCache.set(shape, lut);
+  return lut;
+};
+
+// Screens `rows` rows of a density map starting at image row `y`, in place
+type RowScreen = (density: Uint8ClampedArray, y: number, rows: number) => void;
+
+/**
+ * Amplitude-modulated screen: a rotated grid of dots whose size follows density.
+ */
+const amScreen = (width: number, settings: HalftoneSettings, angle: number, lpi: number): RowScreen => {
+  const lut = getThresholdLut(settings.dotShape);
+  const cell = Math.max(1, settings.dpi / lpi);
+  const rad = (angle * Math.PI) / 180;
+  const cos = Math.cos(rad) / cell;
+  const sin = Math.sin(rad) / cell;
+
+  return (density, top, rows) => {
+    for (let row = 0; row < rows; row++) {
+      const y = top + row + 0.5;
+      for (let px = 0; px < width; px++) {
+        const i = row * width + px;
+        const d = density[i];
+        if (d === 0 || d === 255) continue;
+
+        const x = px + 0.5;
+        const u = x * cos + y * sin;
+        const v = y * cos - x * sin;
+        const cx = (u - Math.floor(u)) * 2 - 1;
+        const cy = (v - Math.floor(v)) * 2 - 1;
+
+        const value = Math.min(1, spotValue(settings.dotShape, cx, cy));
+        const threshold = lut[Math.round(value * (LUT_SIZE - 1))];
+        density[i] = d / 255 >= threshold ? 255 : 0;
+      }
+    }
+  };
+};
+
+/**
+ * Frequency-modulated (stochastic) screen using serpentine Floyd-Steinberg
+ * error diffusion: constant dot size, density controls dot frequency. Only
+ * the error carried into the current and the next row is kept.
+ */
+const fmScreen = (width: number): RowScreen => {
+  let current = new Float32Array(width);
+  let next = new Float32Array(width);
+
+  return (density, top, rows) => {
+    for (let row = 0; row < rows; row++) {
+      const leftToRight = (top + row) % 2 === 0;
+      const dir = leftToRight ? 1 : -1;
+      for (let n = 0; n < width; n++) {
+        const x = leftToRight ? n : width - 1 - n;
+        const i = row * width + x;
+        const value = density[i] + current[x];
+        const printed = value >= 128 ? 255 : 0;
+        density[i] = printed;
+        const e = value - printed;
+
+        if (x + dir >= 0 && x + dir < width) current[x + dir] += e * 7 / 16;
+        if (x - dir >= 0 && x - dir < width) next[x - dir] += e * 3 / 16;
+        next[x] += e * 5 / 16;
+        if (x + dir >= 0 && x + dir < width) next[x + dir] += e * 1 / 16;
+      }
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+  };
+};
+
+/**
+ * Screens a continuous-tone density map into a 1-bit map (0 or 255), in
+ * place, fed top to bottom one block of rows at a time so films can be
+ * screened strip by strip. The density must already be scaled to the output
+ * resolution (settings.dpi), one pixel per device dot, as filmStrips does;
+ * the screen ruling is only right at that scale.
+ */
+export const createScreen = (width: number, settings: HalftoneSettings, angle: number, lpi: number): RowScreen => {
+  if (settings.method === 'am') return amScreen(width, settings, angle, lpi);
+  if (settings.method === 'fm') return fmScreen(width);
+  return () => {};
+};
@@ -0,0 +1,169 @@
+import { STRIP_ROWS } from './stripCanvas';
+
+/*
+ * Undo/redo as a list of reversible commands. Entries that hold on to pixel
+ * data report its size, and the oldest entries are dropped once the total
+ * exceeds the memory budget.
+ */
+
+export interface HistoryEntry {
+  undo: () => void;
+  redo: () => void;
+  bytes?: number; // Memory the entry keeps alive, e.g. mask snapshots
+}
+
+export interface History {
+  push: (entry: HistoryEntry) => void;
+  undo: () => boolean;
+  redo: () => boolean;
+  clear: () => void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+}
+
+const entrySize = (entry: HistoryEntry): number => entry.bytes ?? 0;
+
+export const createHistory = (budgetBytes: number, maxEntries: number = 100): History => {
+  let done: HistoryEntry[] = [];
+  let undone: HistoryEntry[] = [];
+  let bytes = 0;
+
+  // Forgets the oldest edits, always keeping the latest one undoable
+  const trim = () => {
+    while (done.length > 1 && (bytes > budgetBytes || done.length > maxEntries)) {
+      bytes -= entrySize(done.shift()!);
+    }
+  };
+
+  return {
+    push: (entry) => {
+      // A new edit ends the redo branch
+      undone.forEach(e => { bytes -= entrySize(e); });
+      undone = [];
+      done.push(entry);
+      bytes += entrySize(entry);
+      trim();
+    },
+    undo: () => {
+      const entry = done.pop();
+      if (!entry) return false;
+      entry.undo();
+      undone.push(entry);
+      return true;
+    },
+    redo: () => {
+      const entry = undone.pop();
+      if (!entry) return false;
+      entry.redo();
+      done.push(entry);
+      return true;
+    },
+    clear: () => {
+      done = [];
+      undone = [];
+      bytes = 0;
+    },
+    get canUndo() { return done.length > 0; },
+    get canRedo() { return undone.length > 0; }
+  };
+};
+
+// Mask snapshots keep one byte per pixel: which paint shows and how much
+const ERASE = 0x80;    // Red, removes the pixel
+const KEEP = 0x40;     // Green, protects it
+const COVERAGE = 0x3f; // Alpha in six bits
+const PAINT_THRESHOLD = 10; // Channel level the pixel pipeline counts as painted
+
+const packMask = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number): Uint8Array => {
+  const packed = new Uint8Array(width * height);
+  for (let top = 0; top < height; top += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, height - top);
+    const rgba = ctx.getImageData(x, y + top, width, rows).data;
+    const offset = top * width;
+    for (let p = 0; p < width * rows; p++) {
+      const o = p * 4;
+      const paint = (rgba[o] > PAINT_THRESHOLD ? ERASE : 0) | (rgba[o + 1] > PAINT_THRESHOLD ? KEEP : 0);
+      if (paint && rgba[o + 3] > 0) packed[offset + p] = paint | Math.max(1, rgba[o + 3] >> 2);
+    }
+  }
+  return packed;
+};
+
+const unpackMask = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, packed: Uint8Array) => {
+  const strip = ctx.createImageData(width, Math.min(STRIP_ROWS, height));
+  for (let top = 0; top < height; top += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, height - top);
+    const rgba = strip.data;
+    const offset = top * width;
+    for (let p = 0; p < width * rows; p++) {
+      const v = packed[offset + p];
+      const c = v & COVERAGE;
+      const o = p * 4;
+      rgba[o] = v & ERASE ? 255 : 0;
+      rgba[o + 1] = v & KEEP ? 255 : 0;
+      rgba[o + 2] = 0;
+      rgba[o + 3] = (c << 2) | (c >> 4);
+    }
+    ctx.putImageData(strip, x, y + top, 0, 0, width, rows);
+  }
+};
+
+// Context of the mask canvas as it is now; the canvas is remounted when the editor is
+// left and reopened, so entries never hold on to the one they were made with
+const maskContext = (canvas: () => HTMLCanvasElement | null): CanvasRenderingContext2D | null =>
+  canvas()?.getContext('2d') ?? null;
+
+/**
+ * Entry that swaps a rectangle of the mask canvas between its paint before
+ * an edit (read from `before`, a copy of the mask taken when it began) and
+ * after it.
+ */
+export const maskRegionEntry = (
+  canvas: () => HTMLCanvasElement | null,
+  before: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  onChange: () => void
+): HistoryEntry => {
+  const ctx = maskContext(canvas);
+  const undoPaint = packMask(before, x, y, width, height);
+  const redoPaint = ctx ? packMask(ctx, x, y, width, height) : new Uint8Array(0);
+  const restore = (packed: Uint8Array) => {
+    const current = maskContext(canvas);
+    if (!current) return;
+    unpackMask(current, x, y, width, height, packed);
+    onChange();
+  };
+  return {
+    undo: () => restore(undoPaint),
+    redo: () => restore(redoPaint),
+    bytes: undoPaint.length + redoPaint.length
+  };
+};
+
+/**
+ * Entry that clears the whole mask. Only the paint before the clear is
+ * kept; redo simply clears again. Take it before clearing.
+ */
+export const maskClearEntry = (canvas: () => HTMLCanvasElement | null, onChange: () => void): HistoryEntry => {
+  const ctx = maskContext(canvas);
+  const width = ctx?.canvas.width ?? 0;
+  const height = ctx?.canvas.height ?? 0;
+  const paint = ctx ? packMask(ctx, 0, 0, width, height) : new Uint8Array(0);
+  return {
+    undo: () => {
+      const current = maskContext(canvas);
+      if (!current) return;
+      current.clearRect(0, 0, width, height);
+      unpackMask(current, 0, 0, width, height, paint);
+      onChange();
+    },
+    redo: () => {
+      maskContext(canvas)?.clearRect(0, 0, width, height);
+      onChange();
+    },
+    bytes: paint.length
+  };
+};
@@ -0,0 +1,337 @@
+import { IccProfile, RenderingIntent } from '../types';
+import { D50_WHITE, rgbToXyzD50, xyzToLab } from './colorScience';
+
+/*
+ * ICC output profiles for the CMYK separation. Only the B2A tables (PCS ->
+ * CMYK) are read, since a separation only ever converts into the press inks;
+ * A2B tables (CMYK -> PCS, used for proofing) are ignored. Black generation
+ * comes from the table, so the built-in GCR/UCR settings don't apply.
+ */
+
+// A processing stage working on values normalized to 0-1
+type Stage = (v: number[]) => number[];
+
+// Input grid of the cached sRGB -> CMYK table
+const TABLE_STEPS = 17;
+
+const sig = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const s15Fixed16 = (view: DataView, offset: number): number => view.getInt32(offset) / 65536;
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+interface TagEntry {
+  offset: number;
+  size: number;
+}
+
+const readTagTable = (view: DataView): Record<string, TagEntry> => {
+  const tags: Record<string, TagEntry> = {};
+  const count = view.getUint32(128);
+  for (let i = 0; i < count; i++) {
+    const at = 132 + i * 12;
+    tags[sig(view, at)] = { offset: view.getUint32(at + 4), size: view.getUint32(at + 8) };
+  }
+  return tags;
+};
+
+const readDescription = (view: DataView, tag: TagEntry | undefined): string | null => {
+  if (!tag) return null;
+  const type = sig(view, tag.offset);
+  if (type === 'desc') {
+    const length = view.getUint32(tag.offset + 8);
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      const c = view.getUint8(tag.offset + 12 + i);
+      if (c === 0) break;
+      text += String.fromCharCode(c);
+    }
+    return text;
+  }
+  if (type === 'mluc') {
+    // First localized record, UTF-16BE
+    const length = view.getUint32(tag.offset + 20);
+    const start = tag.offset + view.getUint32(tag.offset + 24);
+    let text = '';
+    for (let i = 0; i + 1 < length; i += 2) text += String.fromCharCode(view.getUint16(start + i));
+    return text.replace(/\0+$/, '');
+  }
+  return null;
+};
+
+/**
+ * Reads the header of an ICC profile. Only output (CMYK) profiles with at
+ * least one B2A table are accepted, since those are what drive a separation.
+ */
+export const parseIccProfile = (buffer: ArrayBuffer, fallbackName: string): IccProfile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 132 || sig(view, 36) !== 'acsp') {
+    throw new Error('Not an ICC profile');
+  }
+
+  const colorSpace = sig(view, 16);
+  const pcs = sig(view, 20);
+  if (colorSpace !== 'CMYK') throw new Error(`Unsupported profile color space: ${colorSpace}`);
+  if (pcs !== 'Lab ' && pcs !== 'XYZ ') throw new Error(`Unsupported profile connection space: ${pcs}`);
+
+  const tags = readTagTable(view);
+  if (!tags.B2A0 && !tags.B2A1 && !tags.B2A2) throw new Error('Profile has no B2A table');
+
+  return {
+    name: readDescription(view, tags.desc) || fallbackName,
+    colorSpace,
+    pcs,
+    version: view.getUint8(8),
+    data: new Uint8Array(buffer.slice(0))
+  };
+};
+
+/**
+ * Multilinear interpolation in an n-dimensional CLUT stored with the first
+ * input channel varying slowest. `read(i)` returns a normalized table value.
+ */
+const clutStage = (grid: number[], outputs: number, read: (index: number) => number): Stage => {
+  const inputs = grid.length;
+  // Stride of each input dimension in table entries
+  const strides = new Array(inputs);
+  let stride = outputs;
+  for (let d = inputs - 1; d >= 0; d--) {
+    strides[d] = stride;
+    stride *= grid[d];
+  }
+
+  return (v) => {
+    const base = new Array(inputs);
+    const frac = new Array(inputs);
+    for (let d = 0; d < inputs; d++) {
+      const pos = clamp01(v[d]) * (grid[d] - 1);
+      const i = Math.min(grid[d] - 2, Math.floor(pos));
+      base[d] = Math.max(0, i);
+      frac[d] = grid[d] > 1 ? pos - base[d] : 0;
+    }
+
+    const out = new Array(outputs).fill(0);
+    for (let corner = 0; corner < 1 << inputs; corner++) {
+      let weight = 1;
+      let offset = 0;
+      for (let d = 0; d < inputs; d++) {
+        const bit = (corner >> (inputs - 1 - d)) & 1;
+        weight *= bit ? frac[d] : 1 - frac[d];
+        offset += (base[d] + (grid[d] > 1 ? bit : 0)) * strides[d];
+      }
+      if (weight === 0) continue;
+      for (let o = 0; o < outputs; o++) out[o] += weight * read(offset + o);
+    }
+    return out;
+  };
+};
+
+// Piecewise-linear lookup in a sampled curve
+const sampledCurve = (table: number[]) => (x: number): number => {
+  if (table.length === 1) return table[0];
+  const pos = clamp01(x) * (table.length - 1);
+  const i = Math.min(table.length - 2, Math.floor(pos));
+  const t = pos - i;
+  return table[i] + (table[i + 1] - table[i]) * t;
+};
+
+/**
+ * Reads a 'curv' or 'para' element. Returns the curve and its padded size.
+ */
+const readCurve = (view: DataView, offset: number): { curve: (x: number) => number; size: number } => {
+  const type = sig(view, offset);
+  const pad = (n: number) => (n + 3) & ~3;
+
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8);
+    if (count === 0) return { curve: x => x, size: 12 };
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256;
+      return { curve: x => Math.pow(clamp01(x), gamma), size: pad(14) };
+    }
+    const table: number[] = [];
+    for (let i = 0; i < count; i++) table.push(view.getUint16(offset + 12 + i * 2) / 65535);
+    return { curve: sampledCurve(table), size: pad(12 + count * 2) };
+  }
+
+  if (type === 'para') {
+    const fn = view.getUint16(offset + 8);
+    const paramCount = [1, 3, 4, 5, 7][fn];
+    if (paramCount === undefined) throw new Error(`Unsupported parametric curve type ${fn}`);
+    const p: number[] = [];
+    for (let i = 0; i < paramCount; i++) p.push(s15Fixed16(view, offset + 12 + i * 4));
+    const [g, a, b, c, d, e, f] = p;
+    const pow = (v: number) => (v > 0 ? Math.pow(v, g) : 0);
+
+    let curve: (x: number) => number;
+    switch (fn) {
+      case 0: curve = x => pow(x); break;
+      case 1: curve = x => (x >= -b / a ? pow(a * x + b) : 0); break;
+      case 2: curve = x => (x >= -b / a ? pow(a * x + b) + c : c); break;
+      case 3: curve = x => (x >= d ? pow(a * x + b) : c * x); break;
+      default: curve = x => (x >= d ? pow(a * x + b) + e : c * x + f); break;
+    }
+    return { curve: x => clamp01(curve(x)), size: pad(12 + paramCount * 4) };
+  }
+
+  throw new Error(`Unsupported curve type ${type}`);
+};
+
+const curveSetStage = (view: DataView, offset: number, channels: number): Stage => {
+  const curves: ((x: number) => number)[] = [];
+  let at = offset;
+  for (let i = 0; i < channels; i++) {
+    const { curve, size } = readCurve(view, at);
+    curves.push(curve);
+    at += size;
+  }
+  return v => v.map((x, i) => curves[i](x));
+};
+
+// 3x3 matrix followed by an offset vector, as in lutAtoB / lutBtoA
+const matrixStage = (view: DataView, offset: number, withOffset: boolean): Stage => {
+  const m: number[] = [];
+  for (let i = 0; i < (withOffset ? 12 : 9); i++) m.push(s15Fixed16(view, offset + i * 4));
+  return v => [0, 1, 2].map(r =>
+    clamp01(m[r * 3] * v[0] + m[r * 3 + 1] * v[1] + m[r * 3 + 2] * v[2] + (withOffset ? m[9 + r] : 0))
+  );
+};
+
+/**
+ * lut8Type / lut16Type: matrix (XYZ input only), input curves, CLUT, output curves.
+ */
+const readLegacyLut = (view: DataView, offset: number, pcs: string): Stage[] => {
+  const wide = sig(view, offset) === 'mft2';
+  const inputs = view.getUint8(offset + 8);
+  const outputs = view.getUint8(offset + 9);
+  const gridPoints = view.getUint8(offset + 10);
+
+  const inEntries = wide ? view.getUint16(offset + 48) : 256;
+  const outEntries = wide ? view.getUint16(offset + 50) : 256;
+  const width = wide ? 2 : 1;
+  const max = wide ? 65535 : 255;
+  const read = (at: number) => (wide ? view.getUint16(at) : view.getUint8(at)) / max;
+
+  let at = offset + (wide ? 52 : 48);
+  const table = (entries: number) => {
+    const t: number[] = [];
+    for (let i = 0; i < entries; i++) t.push(read(at + i * width));
+    at += entries * width;
+    return sampledCurve(t);
+  };
+
+  const inCurves = Array.from({ length: inputs }, () => table(inEntries));
+  const clutStart = at;
+  const clutEntries = Math.pow(gridPoints, inputs) * outputs;
+  at += clutEntries * width;
+  const outCurves = Array.from({ length: outputs }, () => table(outEntries));
+
+  const stages: Stage[] = [];
+  if (pcs === 'XYZ ' && inputs === 3) stages.push(matrixStage(view, offset + 12, false));
+  stages.push(v => v.map((x, i) => inCurves[i](x)));
+  stages.push(clutStage(new Array(inputs).fill(gridPoints), outputs, i => read(clutStart + i * width)));
+  stages.push(v => v.map((x, i) => outCurves[i](x)));
+  return stages;
+};
+
+/**
+ * lutBToAType: B curves, matrix, M curves, CLUT, A curves (each optional).
+ */
+const readLutBToA = (view: DataView, offset: number): Stage[] => {
+  const inputs = view.getUint8(offset + 8);
+  const outputs = view.getUint8(offset + 9);
+  const offB = view.getUint32(offset + 12);
+  const offMatrix = view.getUint32(offset + 16);
+  const offM = view.getUint32(offset + 20);
+  const offClut = view.getUint32(offset + 24);
+  const offA = view.getUint32(offset + 28);
+
+  const stages: Stage[] = [];
+  if (offB) stages.push(curveSetStage(view, offset + offB, inputs));
+  if (offMatrix && inputs === 3) stages.push(matrixStage(view, offset + offMatrix, true));
+  if (offM) stages.push(curveSetStage(view, offset + offM, inputs));
+  if (offClut) {
+    const at = offset + offClut;
+    const grid: number[] = [];
+    for (let d = 0; d < inputs; d++) grid.push(view.getUint8(at + d));
+    const precision = view.getUint8(at + 16);
+    const data = at + 20;
+    stages.push(clutStage(grid, outputs, i =>
+      precision === 1 ? view.getUint8(data + i) / 255 : view.getUint16(data + i * 2) / 65535
+    ));
+  }
+  if (offA) stages.push(curveSetStage(view, offset + offA, outputs));
+  return stages;
+};
+
+/**
+ * Encodes a D50 color as normalized PCS values for the given table type.
+ * lut16Type keeps the legacy (v2) Lab encoding where L* 100 maps to 0xFF00.
+ */
+const encodePcs = (xyz: [number, number, number], pcs: string, tableType: string): number[] => {
+  if (pcs === 'XYZ ') return xyz.map(v => clamp01(v * 32768 / 65535));
+
+  const [L, a, b] = xyzToLab(xyz[0], xyz[1], xyz[2], D50_WHITE);
+  if (tableType === 'mft2') {
+    return [clamp01(L * 652.8 / 65535), clamp01((a + 128) * 256 / 65535), clamp01((b + 128) * 256 / 65535)];
+  }
+  return [clamp01(L / 100), clamp01((a + 128) / 255), clamp01((b + 128) / 255)];
+};
+
+/**
+ * Builds an sRGB -> CMYK converter from a profile's B2A table for the given
+ * intent (falling back to perceptual). The profile is sampled on a grid once
+ * and looked up with trilinear interpolation; the returned array holds ink
+ * coverage 0-1 and is reused between calls.
+ */
+export const createCmykTransform = (profile: IccProfile, intent: RenderingIntent) => {
+  const view = new DataView(profile.data.buffer, profile.data.byteOffset, profile.data.byteLength);
+  const tags = readTagTable(view);
+  const tag = tags[`B2A${intent}`] ?? tags.B2A0 ?? tags.B2A1 ?? tags.B2A2;
+  const tableType = sig(view, tag.offset);
+
+  let stages: Stage[];
+  if (tableType === 'mft1' || tableType === 'mft2') stages = readLegacyLut(view, tag.offset, profile.pcs);
+  else if (tableType === 'mBA ') stages = readLutBToA(view, tag.offset);
+  else throw new Error(`Unsupported B2A table type ${tableType}`);
+
+  const evaluate = (r: number, g: number, b: number): number[] =>
+    stages.reduce((v, stage) => stage(v), encodePcs(rgbToXyzD50(r, g, b), profile.pcs, tableType));
+
+  const spacing = 255 / (TABLE_STEPS - 1);
+  const table = new Float32Array(TABLE_STEPS ** 3 * 4);
+  for (let ri = 0; ri < TABLE_STEPS; ri++) {
+    for (let gi = 0; gi < TABLE_STEPS; gi++) {
+      for (let bi = 0; bi < TABLE_STEPS; bi++) {
+        const cmyk = evaluate(ri * spacing, gi * spacing, bi * spacing);
+        table.set(cmyk.slice(0, 4), ((ri * TABLE_STEPS + gi) * TABLE_STEPS + bi) * 4);
+      }
+    }
+  }
+
+  const result = new Float32Array(4);
+  return (r: number, g: number, b: number): Float32Array => {
+    const fr = r / spacing;
+    const fg = g / spacing;
+    const fb = b / spacing;
+    const r0 = Math.min(TABLE_STEPS - 2, Math.floor(fr));
+    const g0 = Math.min(TABLE_STEPS - 2, Math.floor(fg));
+    const b0 = Math.min(TABLE_STEPS - 2, Math.floor(fb));
+    const tr = fr - r0;
+    const tg = fg - g0;
+    const tb = fb - b0;
+
+    result.fill(0);
+    for (let corner = 0; corner < 8; corner++) {
+      const dr = corner & 1;
+      const dg = (corner >> 1) & 1;
+      const db = (corner >> 2) & 1;
+      const w = (dr ? tr : 1 - tr) * (dg ? tg : 1 - tg) * (db ? tb : 1 - tb);
+      if (w === 0) continue;
+      const base = (((r0 + dr) * TABLE_STEPS + g0 + dg) * TABLE_STEPS + b0 + db) * 4;
+      for (let i = 0; i < 4; i++) result[i] += w * table[base + i];
+    }
+    return result;
+  };
+};
@@ -0,0 +1,81 @@
+import { Ink } from '../types';
+import { Lab, hexToLab } from './colorScience';
+
+const STORAGE_KEY = 'inkLibrary';
+
+/**
+ * New library ink. Without a measured Lab value it is derived from the hex.
+ */
+export const createInk = (name: string, hex: string, lab: Lab = hexToLab(hex)): Ink => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  hex: hex.toLowerCase(),
+  lab
+});
+
+// Starter library for a fresh workstation
+const defaultInks = (): Ink[] => [
+  { ...createInk('Белый', '#ffffff'), opacity: 100, mesh: 156 },
+  { ...createInk('Черный', '#000000'), opacity: 100 },
+  createInk('Красный', '#e4002b'),
+  createInk('Желтый', '#ffd100'),
+  createInk('Синий', '#0033a0'),
+  createInk('Ярко-Зеленый', '#00ff00'),
+  createInk('Оранжевый', '#ff8800'),
+  createInk('Фиолетовый', '#9d00ff')
+];
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+// Whether a stored entry still has the shape of an ink
+const isInk = (value: unknown): value is Ink => {
+  if (typeof value !== 'object' || value === null) return false;
+  const ink = value as Record<string, unknown>;
+  return typeof ink.id === 'string'
+    && typeof ink.name === 'string'
+    && typeof ink.hex === 'string' && /^#[0-9a-f]{6}$/i.test(ink.hex)
+    && Array.isArray(ink.lab) && ink.lab.length === 3 && ink.lab.every(v => typeof v === 'number' && Number.isFinite(v))
+    && isOptionalNumber(ink.opacity)
+    && isOptionalNumber(ink.mesh);
+};
+
+/**
+ * Ink library saved on this workstation, or the starter inks the first time.
+ * Entries that don't read as inks (hand-edited or corrupted storage) are
+ * skipped rather than reaching the UI.
+ */
+export const loadInkLibrary = (): Ink[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed.filter(isInk);
+      console.error("Ink library is not a list, starting over");
+    }
+  } catch (e) {
+    console.error("Ink library could not be read", e);
+  }
+  return defaultInks();
+};
+
+export const saveInkLibrary = (inks: Ink[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(inks));
+  } catch (e) {
+    console.error("Ink library could not be saved", e);
+  }
+};
+
+/**
+ * Adds imported inks to the library, skipping ones it already has under the
+ * same name and color.
+ */
+export const mergeInks = (library: Ink[], imported: Ink[]): Ink[] => {
+  const known = new Set(library.map(ink => `${ink.name}|${ink.hex}`));
+  return [...library, ...imported.filter(ink => {
+    const key = `${ink.name}|${ink.hex}`;
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  })];
+};
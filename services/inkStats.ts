@@ -0,0 +1,81 @@
+import { ChannelResult, HalftoneSettings, Ink, InkCostSettings, InkCoverage, InkEstimate, PrintSize } from '../types';
+import { suggestMesh } from './jobManifest';
+
+const CM2_PER_M2 = 10000;
+
+// Theoretical ink volume of common textile meshes in cm³/m² (threads per inch, volume)
+const MESH_INK_VOLUME: [number, number][] = [
+  [110, 40], [125, 36], [156, 30], [196, 24], [230, 20], [260, 17], [305, 14], [355, 11]
+];
+
+// Plastisol weighs about 1.4 g/cm³
+const INK_SPECIFIC_GRAVITY = 1.4;
+
+// Densities are immutable once separated, so results are cached per array
+const coverageCache = new WeakMap<Uint8ClampedArray, InkCoverage>();
+
+/**
+ * Share of the area a channel inks, and its mean and peak density.
+ */
+export const measureCoverage = (density: Uint8ClampedArray): InkCoverage => {
+  const cached = coverageCache.get(density);
+  if (cached) return cached;
+
+  let inked = 0;
+  let sum = 0;
+  let max = 0;
+  for (let i = 0; i < density.length; i++) {
+    const d = density[i];
+    if (d === 0) continue;
+    inked++;
+    sum += d;
+    if (d > max) max = d;
+  }
+
+  const len = Math.max(1, density.length);
+  const result = {
+    coverage: (inked / len) * 100,
+    meanDensity: (sum / len / 255) * 100,
+    maxDensity: (max / 255) * 100
+  };
+  coverageCache.set(density, result);
+  return result;
+};
+
+/**
+ * Ink volume a mesh lays down at full coverage, interpolated between the
+ * tabulated counts and clamped at both ends.
+ */
+const inkVolume = (mesh: number): number => {
+  const [first] = MESH_INK_VOLUME;
+  if (mesh <= first[0]) return first[1];
+  for (let i = 1; i < MESH_INK_VOLUME.length; i++) {
+    const [m1, v1] = MESH_INK_VOLUME[i];
+    if (mesh <= m1) {
+      const [m0, v0] = MESH_INK_VOLUME[i - 1];
+      return v0 + ((mesh - m0) / (m1 - m0)) * (v1 - v0);
+    }
+  }
+  return MESH_INK_VOLUME[MESH_INK_VOLUME.length - 1][1];
+};
+
+/**
+ * Estimates the ink one print of a channel uses over the printed area; the
+ * mean density stands in for the dot area the screen ends up printing. The
+ * mesh is the job-wide one if set, else the recommendation of the channel's
+ * library ink, else suggested.
+ */
+export const estimateInk = (
+  channel: ChannelResult,
+  halftone: HalftoneSettings,
+  settings: InkCostSettings,
+  printSize: PrintSize,
+  ink?: Ink
+): InkEstimate => {
+  const coverage = measureCoverage(channel.density);
+  const mesh = settings.mesh || ink?.mesh || suggestMesh(channel, halftone);
+
+  const volume = ((printSize.widthCm * printSize.heightCm) / CM2_PER_M2) * (coverage.meanDensity / 100) * inkVolume(mesh);
+  const grams = volume * INK_SPECIFIC_GRAVITY;
+  return { ...coverage, mesh, grams, cost: (grams / 1000) * settings.pricePerKg };
+};
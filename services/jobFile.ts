@@ -0,0 +1,95 @@
+import { ProcessingConfig, SeparationJob, SeparationMode } from '../types';
+import { parseIccProfile } from './iccProfile';
+
+export const JOB_FILE_EXTENSION = '.sepjob';
+
+const FORMAT = 'sepjob';
+const VERSION = 1;
+
+interface JobFileProfile {
+  name: string;
+  data: string; // Base64 of the raw profile bytes
+}
+
+interface JobFile extends Omit<SeparationJob, 'config'> {
+  format: typeof FORMAT;
+  version: number;
+  savedAt: string;
+  config: Omit<ProcessingConfig, 'iccProfile'> & { iccProfile: JobFileProfile | null };
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000; // Keeps String.fromCharCode under the argument limit
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): ArrayBuffer => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+// Upgrades a file of the keyed version to the next one; empty while only version 1 exists
+const MIGRATIONS: Record<number, (file: JobFile) => JobFile> = {};
+
+const migrate = (file: JobFile): JobFile => {
+  for (let version = file.version; version < VERSION; version++) {
+    file = MIGRATIONS[version]?.(file) ?? file;
+  }
+  return { ...file, version: VERSION };
+};
+
+/**
+ * Packs a job into a self-contained JSON file. The image and mask travel as
+ * data URLs and the ICC profile as its raw bytes, so the file opens on any
+ * workstation.
+ */
+export const writeJobFile = (job: SeparationJob): Blob => {
+  const { iccProfile, ...config } = job.config;
+  const file: JobFile = {
+    format: FORMAT,
+    version: VERSION,
+    savedAt: new Date().toISOString(),
+    ...job,
+    config: {
+      ...config,
+      iccProfile: iccProfile && { name: iccProfile.name, data: toBase64(iccProfile.data) }
+    }
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+/**
+ * Reads a job written by `writeJobFile`, upgrading files from older versions.
+ * Throws if the file isn't a job or comes from a newer version of the app.
+ * Settings the file lacks are left for the caller to fill with defaults.
+ */
+export const readJobFile = async (blob: Blob): Promise<SeparationJob> => {
+  let file: JobFile;
+  try {
+    file = JSON.parse(await blob.text());
+  } catch {
+    throw new Error('Not a job file');
+  }
+  if (file?.format !== FORMAT) throw new Error('Not a job file');
+  if (file.version > VERSION) throw new Error(`Unsupported job file version: ${file.version}`);
+  if (typeof file.image !== 'string' || !file.image.startsWith('data:image/')) throw new Error('Job file has no image');
+  if (!Object.values(SeparationMode).includes(file.config?.mode)) throw new Error('Job file has no valid settings');
+
+  const { config: { iccProfile, ...config }, ...job } = migrate(file);
+  return {
+    name: job.name ?? '',
+    image: job.image,
+    mask: job.mask ?? null,
+    config: {
+      ...config,
+      iccProfile: iccProfile ? parseIccProfile(fromBase64(iccProfile.data), iccProfile.name) : null
+    },
+    output: job.output
+  };
+};
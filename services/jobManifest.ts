@@ -0,0 +1,128 @@
+import { ChannelResult, HalftoneSettings, ImageAdjustments, InkCostSettings, InkEstimate, SeparationMode } from '../types';
+import { safeFileName } from './download';
+
+// Common textile mesh counts (threads per inch)
+export const STANDARD_MESHES = [110, 125, 156, 196, 230, 260, 305, 355];
+
+// Mesh should be at least ~4x the screen ruling so dots sit on the threads
+const MESH_TO_LPI_RATIO = 4;
+
+export interface ManifestChannel {
+  order: number;
+  name: string;
+  file: string;
+  inkHex: string;
+  meshSuggestion: number;
+  screenAngle: number;
+  lpi: number;
+  ink: InkEstimate; // Per print, at `meshSuggestion`
+}
+
+export interface JobManifest {
+  job: string;
+  createdAt: string;
+  mode: SeparationMode;
+  width: number;
+  height: number;
+  halftone: HalftoneSettings;
+  adjustments: ImageAdjustments;
+  channels: ManifestChannel[];
+  inkPerPrint: { grams: number; cost: number; pricePerKg: number };
+}
+
+/**
+ * Suggests a mesh count for a channel: coarse for the underbase and solid
+ * spot films, fine enough to hold the dot for halftoned ones.
+ */
+export const suggestMesh = (channel: ChannelResult, halftone: HalftoneSettings): number => {
+  if (channel.isUnderbase) return 156;
+  if (halftone.method === 'fm') return 305;
+  if (halftone.method === 'am') {
+    const target = channel.lpi * MESH_TO_LPI_RATIO;
+    return STANDARD_MESHES.find(m => m >= target) ?? STANDARD_MESHES[STANDARD_MESHES.length - 1];
+  }
+  return 156;
+};
+
+/**
+ * File name of a channel inside the job archive, prefixed with print order.
+ */
+export const channelFileName = (channel: ChannelResult, order: number): string =>
+  `${String(order).padStart(2, '0')}_${safeFileName(channel.name)}.png`;
+
+const round = (value: number, digits: number): number => {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+};
+
+const roundEstimate = (e: InkEstimate): InkEstimate => ({
+  coverage: round(e.coverage, 1),
+  meanDensity: round(e.meanDensity, 1),
+  maxDensity: round(e.maxDensity, 1),
+  mesh: e.mesh,
+  grams: round(e.grams, 2),
+  cost: round(e.cost, 2)
+});
+
+/**
+ * @param inks Ink estimate per channel, in the same order as `channels`
+ */
+export const buildManifest = (
+  job: string,
+  mode: SeparationMode,
+  channels: ChannelResult[],
+  size: { width: number; height: number },
+  halftone: HalftoneSettings,
+  adjustments: ImageAdjustments,
+  inks: InkEstimate[],
+  inkCost: InkCostSettings
+): JobManifest => ({
+  job,
+  createdAt: new Date().toISOString(),
+  mode,
+  width: size.width,
+  height: size.height,
+  halftone,
+  adjustments,
+  channels: channels.map((channel, idx) => ({
+    order: idx + 1,
+    name: channel.name,
+    file: channelFileName(channel, idx + 1),
+    inkHex: channel.colorHex.toUpperCase(),
+    meshSuggestion: inks[idx].mesh,
+    screenAngle: channel.screenAngle,
+    lpi: channel.lpi,
+    ink: roundEstimate(inks[idx])
+  })),
+  inkPerPrint: {
+    grams: round(inks.reduce((sum, e) => sum + e.grams, 0), 2),
+    cost: round(inks.reduce((sum, e) => sum + e.cost, 0), 2),
+    pricePerKg: inkCost.pricePerKg
+  }
+});
+
+/**
+ * Human-readable version of the manifest for the press floor.
+ */
+export const manifestToText = (m: JobManifest): string => {
+  const lines = [
+    `Job: ${m.job}`,
+    `Created: ${m.createdAt}`,
+    `Mode: ${m.mode}`,
+    `Size: ${m.width} x ${m.height} px`,
+    `Halftone: ${m.halftone.method.toUpperCase()}${m.halftone.method === 'am' ? ` (${m.halftone.dotShape})` : ''} @ ${m.halftone.dpi} dpi`,
+    `Adjustments: brightness ${m.adjustments.brightness}, contrast ${m.adjustments.contrast}, gamma ${m.adjustments.gamma}` +
+      (m.adjustments.removeBg ? `, background removal ${m.adjustments.bgRemoveMode} (${m.adjustments.bgThreshold}%)` : ''),
+    '',
+    'Print order:'
+  ];
+
+  for (const c of m.channels) {
+    lines.push(`${c.order}. ${c.name} | ink ${c.inkHex} | mesh ${c.meshSuggestion} | angle ${c.screenAngle}° | ${c.lpi} lpi | ${c.file}`);
+    lines.push(`   coverage ${c.ink.coverage}% (mean ${c.ink.meanDensity}%, max ${c.ink.maxDensity}%) | ~${c.ink.grams} g, ${c.ink.cost} per print`);
+  }
+
+  lines.push('', `Ink per print: ~${m.inkPerPrint.grams} g, cost ${m.inkPerPrint.cost} (at ${m.inkPerPrint.pricePerKg} per kg)`);
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,139 @@
+import { Lab, deltaE76, rgbToLab } from './colorScience';
+
+/*
+ * Magic wand selection for the manual mask. Selections are density maps
+ * (255 = selected) so they can be grown with the morphology filters.
+ */
+
+export interface SelectionBounds {
+  x0: number;
+  y0: number;
+  x1: number; // Exclusive
+  y1: number; // Exclusive
+}
+
+const UNKNOWN = 0;
+const NO_MATCH = 1;
+const MATCH = 2;
+
+// Verdict per 24-bit color, so each distinct color is measured once. Shared by
+// every click rather than allocating 16 MB each time.
+let verdicts: Uint8Array | null = null;
+
+/**
+ * Selects the pixels whose color is within `tolerance` (ΔE) of the pixel at
+ * (x, y): only the region connected to it, or the whole image when
+ * `contiguous` is off. Transparent pixels only match a transparent seed.
+ */
+export const selectByColor = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  tolerance: number,
+  contiguous: boolean,
+  distance: (a: Lab, b: Lab) => number = deltaE76
+): Uint8ClampedArray => {
+  const selection = new Uint8ClampedArray(width * height);
+  if (x < 0 || y < 0 || x >= width || y >= height) return selection;
+
+  const seed = (y * width + x) * 4;
+  const seedTransparent = rgba[seed + 3] < 128;
+  const seedLab = rgbToLab(rgba[seed], rgba[seed + 1], rgba[seed + 2]);
+
+  verdicts ??= new Uint8Array(1 << 24);
+  verdicts.fill(UNKNOWN);
+  const table = verdicts;
+  const matches = (p: number): boolean => {
+    const o = p * 4;
+    if (rgba[o + 3] < 128 !== seedTransparent) return false;
+    if (seedTransparent) return true;
+    const key = (rgba[o] << 16) | (rgba[o + 1] << 8) | rgba[o + 2];
+    if (table[key] === UNKNOWN) {
+      const lab = rgbToLab(rgba[o], rgba[o + 1], rgba[o + 2]);
+      table[key] = distance(seedLab, lab) <= tolerance ? MATCH : NO_MATCH;
+    }
+    return table[key] === MATCH;
+  };
+
+  if (!contiguous) {
+    for (let p = 0; p < selection.length; p++) {
+      if (matches(p)) selection[p] = 255;
+    }
+    return selection;
+  }
+
+  // 4-connected flood fill; a pixel is marked when pushed so it's queued once
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  stack[top++] = y * width + x;
+  selection[y * width + x] = 255;
+  while (top > 0) {
+    const p = stack[--top];
+    const px = p % width;
+    const visit = (q: number) => {
+      if (selection[q] === 0 && matches(q)) {
+        selection[q] = 255;
+        stack[top++] = q;
+      }
+    };
+    if (px > 0) visit(p - 1);
+    if (px < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < selection.length - width) visit(p + width);
+  }
+  return selection;
+};
+
+/**
+ * Adds `b` to selection `a` in place.
+ */
+export const unionSelection = (a: Uint8ClampedArray, b: Uint8ClampedArray): Uint8ClampedArray => {
+  for (let i = 0; i < a.length; i++) {
+    if (b[i] > a[i]) a[i] = b[i];
+  }
+  return a;
+};
+
+/**
+ * Smallest rectangle holding every selected pixel, or null if none is.
+ */
+export const selectionBounds = (selection: Uint8ClampedArray, width: number, height: number): SelectionBounds | null => {
+  let x0 = width, y0 = height, x1 = 0, y1 = 0;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (selection[row + x] === 0) continue;
+      if (x < x0) x0 = x;
+      if (x >= x1) x1 = x + 1;
+      if (y < y0) y0 = y;
+      y1 = y + 1;
+    }
+  }
+  return x1 > x0 ? { x0, y0, x1, y1 } : null;
+};
+
+/**
+ * Sets the selected pixels of `region`, an RGBA crop at `bounds` of an image
+ * `width` pixels wide, to `color`.
+ */
+export const fillSelection = (
+  region: Uint8ClampedArray,
+  selection: Uint8ClampedArray,
+  width: number,
+  bounds: SelectionBounds,
+  color: [number, number, number, number]
+) => {
+  const regionWidth = bounds.x1 - bounds.x0;
+  for (let y = bounds.y0; y < bounds.y1; y++) {
+    for (let x = bounds.x0; x < bounds.x1; x++) {
+      if (selection[y * width + x] === 0) continue;
+      const o = ((y - bounds.y0) * regionWidth + (x - bounds.x0)) * 4;
+      region[o] = color[0];
+      region[o + 1] = color[1];
+      region[o + 2] = color[2];
+      region[o + 3] = color[3];
+    }
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Grayscale morphology on density maps. Both operations use a square
+ * structuring element of the given radius, applied as two separable passes.
+ * The vertical pass keeps a ring of 2 * radius + 1 rows of the horizontal
+ * one, so filtering needs a few rows of working memory, not a second map.
+ */
+
+/**
+ * Calls `visit` with each row of the filtered map, top to bottom. Row `y` is
+ * visited once the source is read up to row y + radius, so `visit` may
+ * overwrite source rows up to `y` and filter in place.
+ */
+const forEachExtremeRow = (
+  src: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  pick: (a: number, b: number) => number,
+  edge: number,
+  visit: (row: Uint8ClampedArray, y: number) => void
+) => {
+  const span = radius * 2 + 1;
+  const ring = new Uint8ClampedArray(span * width);
+  const out = new Uint8ClampedArray(width);
+
+  // Horizontal pass of source row `y` into its ring slot; pixels beyond the image count as `edge`
+  const horizontal = (y: number) => {
+    const row = y * width;
+    const slot = (y % span) * width;
+    for (let x = 0; x < width; x++) {
+      let v = src[row + x];
+      for (let k = -radius; k <= radius; k++) {
+        const xx = x + k;
+        v = pick(v, xx < 0 || xx >= width ? edge : src[row + xx]);
+      }
+      ring[slot + x] = v;
+    }
+  };
+
+  for (let y = 0; y < Math.min(radius, height); y++) horizontal(y);
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    if (y + radius < height) horizontal(y + radius);
+    const slot = (y % span) * width;
+    for (let x = 0; x < width; x++) {
+      let v = ring[slot + x];
+      for (let k = -radius; k <= radius; k++) {
+        const yy = y + k;
+        v = pick(v, yy < 0 || yy >= height ? edge : ring[(yy % span) * width + x]);
+      }
+      out[x] = v;
+    }
+    visit(out, y);
+  }
+};
+
+/**
+ * Shrinks inked areas by `radius` pixels (a "choke"). The result goes into
+ * `out`, which may be `density` itself, or a new map.
+ */
+export const erode = (
+  density: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  out?: Uint8ClampedArray
+): Uint8ClampedArray => {
+  if (radius <= 0) return density;
+  const target = out ?? new Uint8ClampedArray(density.length);
+  forEachExtremeRow(density, width, height, Math.round(radius), Math.min, 0, (row, y) => target.set(row, y * width));
+  return target;
+};
+
+/**
+ * Grows inked areas by `radius` pixels (a "spread"). The result goes into
+ * `out`, which may be `density` itself, or a new map.
+ */
+export const dilate = (
+  density: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  out?: Uint8ClampedArray
+): Uint8ClampedArray => {
+  if (radius <= 0) return density;
+  const target = out ?? new Uint8ClampedArray(density.length);
+  forEachDilatedRow(density, width, height, radius, (row, y) => target.set(row, y * width));
+  return target;
+};
+
+/**
+ * Hands each row of `density` grown by `radius` pixels to `visit`, top to
+ * bottom, without building the grown map. `visit` may overwrite `density`
+ * up to the row it is given.
+ */
+export const forEachDilatedRow = (
+  density: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  visit: (row: Uint8ClampedArray, y: number) => void
+) => forEachExtremeRow(density, width, height, Math.round(radius), Math.max, 0, visit);
@@ -0,0 +1,195 @@
+import { Lab, deltaE2000, hexToLab, hexToRgb, rgbToHex, rgbToLab } from './colorScience';
+
+/*
+ * Spot palette selection: weighted k-means in CIELAB over a binned sample of
+ * the image, with optional locked inks that stay fixed while the rest move.
+ */
+
+export interface PaletteSample {
+  lab: Lab;
+  rgb: [number, number, number]; // Mean color of the bin
+  weight: number;                // Pixels in the bin
+}
+
+export interface PaletteCandidate {
+  colors: string[]; // Locked inks first, then the solved ones
+  error: number;    // Mean ΔE2000 from each pixel to its nearest ink
+}
+
+// Most inks the solver proposes
+export const MAX_PALETTE_SIZE = 10;
+
+// Mean ΔE2000 under which a palette is considered to look right
+export const GOOD_PALETTE_ERROR = 6;
+
+const MAX_ITERATIONS = 30;
+const CONVERGED = 0.05; // Largest center move (ΔE76) that ends the iterations
+
+// Bins of 4 bits per channel: 4096 colors, plenty for choosing a handful of inks
+const BIN_SHIFT = 4;
+
+/**
+ * Reduces RGBA pixels to weighted color bins. Mostly transparent pixels
+ * (removed background) are ignored.
+ */
+export const paletteSamples = (rgba: Uint8ClampedArray): PaletteSample[] => {
+  const bins = new Map<number, { r: number; g: number; b: number; n: number }>();
+  for (let i = 0; i < rgba.length; i += 4) {
+    if (rgba[i + 3] < 128) continue;
+    const key = ((rgba[i] >> BIN_SHIFT) << 8) | ((rgba[i + 1] >> BIN_SHIFT) << 4) | (rgba[i + 2] >> BIN_SHIFT);
+    const bin = bins.get(key);
+    if (bin) {
+      bin.r += rgba[i];
+      bin.g += rgba[i + 1];
+      bin.b += rgba[i + 2];
+      bin.n++;
+    } else {
+      bins.set(key, { r: rgba[i], g: rgba[i + 1], b: rgba[i + 2], n: 1 });
+    }
+  }
+
+  return Array.from(bins.values(), bin => {
+    const rgb: [number, number, number] = [bin.r / bin.n, bin.g / bin.n, bin.b / bin.n];
+    return { lab: rgbToLab(...rgb), rgb, weight: bin.n };
+  });
+};
+
+const distSq = (a: Lab, b: Lab): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Small deterministic PRNG so the same image always gives the same palette
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const nearest = (lab: Lab, centers: Lab[]): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let c = 0; c < centers.length; c++) {
+    const d = distSq(lab, centers[c]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = c;
+    }
+  }
+  return best;
+};
+
+/**
+ * k-means++ seeding: each new center is drawn with probability proportional
+ * to pixel count times squared distance from the centers chosen so far.
+ */
+const seedCenters = (
+  samples: PaletteSample[],
+  fixed: Pick<PaletteSample, 'lab' | 'rgb'>[],
+  count: number,
+  random: () => number
+): Pick<PaletteSample, 'lab' | 'rgb'>[] => {
+  const centers = [...fixed];
+  if (centers.length === 0) {
+    // Start from the most common color
+    centers.push(samples.reduce((a, b) => (b.weight > a.weight ? b : a)));
+  }
+
+  const minDist = samples.map(s => Math.min(...centers.map(c => distSq(s.lab, c.lab))));
+  while (centers.length < count) {
+    const total = samples.reduce((sum, s, i) => sum + s.weight * minDist[i], 0);
+    if (total === 0) break; // Fewer distinct colors than inks requested
+    let pick = random() * total;
+    let idx = 0;
+    for (; idx < samples.length - 1; idx++) {
+      pick -= samples[idx].weight * minDist[idx];
+      if (pick <= 0) break;
+    }
+    const center = samples[idx];
+    centers.push(center);
+    samples.forEach((s, i) => { minDist[i] = Math.min(minDist[i], distSq(s.lab, center.lab)); });
+  }
+  return centers;
+};
+
+/**
+ * Finds `count` inks for the sampled image. Locked inks (hex) are kept as
+ * they are and count towards the total.
+ */
+export const solvePalette = (samples: PaletteSample[], count: number, locked: string[] = []): PaletteCandidate => {
+  if (samples.length === 0) return { colors: [...locked], error: 0 };
+
+  const fixed = locked.map(hex => ({ lab: hexToLab(hex), rgb: hexToRgb(hex) }));
+  const random = mulberry32(count * 7919 + locked.length);
+  const seeds = seedCenters(samples, fixed, Math.max(count, fixed.length), random);
+  const centers = seeds.map(c => c.lab);
+  const rgb = seeds.map(c => c.rgb);
+  const assignment = new Int32Array(samples.length);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    samples.forEach((s, i) => { assignment[i] = nearest(s.lab, centers); });
+
+    const sums = centers.map(() => ({ l: 0, a: 0, b: 0, r: 0, g: 0, bl: 0, w: 0 }));
+    samples.forEach((s, i) => {
+      const sum = sums[assignment[i]];
+      sum.l += s.lab[0] * s.weight;
+      sum.a += s.lab[1] * s.weight;
+      sum.b += s.lab[2] * s.weight;
+      sum.r += s.rgb[0] * s.weight;
+      sum.g += s.rgb[1] * s.weight;
+      sum.bl += s.rgb[2] * s.weight;
+      sum.w += s.weight;
+    });
+
+    let moved = 0;
+    for (let c = fixed.length; c < centers.length; c++) {
+      const sum = sums[c];
+      if (sum.w === 0) continue; // Empty cluster keeps its seed
+      const next: Lab = [sum.l / sum.w, sum.a / sum.w, sum.b / sum.w];
+      moved = Math.max(moved, Math.sqrt(distSq(next, centers[c])));
+      centers[c] = next;
+      rgb[c] = [sum.r / sum.w, sum.g / sum.w, sum.bl / sum.w];
+    }
+    if (moved < CONVERGED) break;
+  }
+
+  // Reconstruction error: every pixel printed as its closest ink
+  let error = 0;
+  let weight = 0;
+  for (const s of samples) {
+    let best = Infinity;
+    for (const c of centers) best = Math.min(best, deltaE2000(s.lab, c));
+    error += best * s.weight;
+    weight += s.weight;
+  }
+
+  return {
+    colors: rgb.map((c, i) => (i < fixed.length ? locked[i] : rgbToHex(c[0], c[1], c[2]))),
+    error: error / weight
+  };
+};
+
+/**
+ * Solves every ink count from the locked inks (at least one) up to
+ * `maxCount`, so the error of each can be compared. The range ends early when
+ * the image has fewer distinct colors than inks requested, so every
+ * candidate holds exactly as many inks as were asked for.
+ */
+export const solvePaletteRange = (
+  samples: PaletteSample[],
+  maxCount: number = MAX_PALETTE_SIZE,
+  locked: string[] = []
+): PaletteCandidate[] => {
+  const candidates: PaletteCandidate[] = [];
+  for (let n = Math.max(1, locked.length); n <= maxCount; n++) {
+    const candidate = solvePalette(samples, n, locked);
+    if (candidate.colors.length < n) break;
+    candidates.push(candidate);
+  }
+  return candidates;
+};
+
+/**
+ * Smallest candidate whose error is good enough, or the best one otherwise.
+ */
+export const recommendedCandidate = (candidates: PaletteCandidate[]): PaletteCandidate | undefined =>
+  candidates.find(c => c.error <= GOOD_PALETTE_ERROR) ?? candidates[candidates.length - 1];
@@ -0,0 +1,109 @@
+import { VectorChannel } from './svgWriter';
+import { contourSegments } from './vectorTracer';
+
+const POINTS_PER_INCH = 72;
+
+const fmt = (n: number): string => String(Math.round(n * 1000) / 1000);
+
+/**
+ * Encodes text as a PDF name, escaping anything outside printable ASCII
+ * byte by byte (UTF-8), as the spec requires for non-ASCII spot names.
+ */
+const pdfName = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let out = '/';
+  bytes.forEach(b => {
+    const ch = String.fromCharCode(b);
+    out += b > 0x20 && b < 0x7f && !'#()<>[]{}/%'.includes(ch) ? ch : `#${b.toString(16).padStart(2, '0')}`;
+  });
+  return out;
+};
+
+const pageContent = (c: VectorChannel): string => {
+  const ops: string[] = ['/CS0 cs 1 scn'];
+  let current: [number, number] = [0, 0];
+  for (const contour of c.traced.contours) {
+    contourSegments(
+      contour,
+      c.traced.smooth,
+      p => { ops.push(`${fmt(p[0])} ${fmt(p[1])} m`); current = p; },
+      p => { ops.push(`${fmt(p[0])} ${fmt(p[1])} l`); current = p; },
+      (q, p) => {
+        // Quadratic to cubic: control points sit 2/3 of the way towards q
+        const c1x = current[0] + (2 / 3) * (q[0] - current[0]);
+        const c1y = current[1] + (2 / 3) * (q[1] - current[1]);
+        const c2x = p[0] + (2 / 3) * (q[0] - p[0]);
+        const c2y = p[1] + (2 / 3) * (q[1] - p[1]);
+        ops.push(`${fmt(c1x)} ${fmt(c1y)} ${fmt(c2x)} ${fmt(c2y)} ${fmt(p[0])} ${fmt(p[1])} c`);
+        current = p;
+      }
+    );
+    ops.push('h');
+  }
+  ops.push('f*');
+  return ops.join('\n');
+};
+
+/**
+ * Writes one page per traced channel. Each page fills its artwork with a
+ * Separation color space named after the channel, so RIPs output it as that
+ * spot plate; the alternate RGB tint shows the ink color on screen.
+ */
+export const writeSeparationPdf = (channels: VectorChannel[], dpi: number): Blob => {
+  if (channels.length === 0) throw new Error('No channels to export');
+
+  const objects: string[] = [];
+  const add = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const pageIds: number[] = [];
+
+  for (const c of channels) {
+    const { width, height } = c.traced;
+    const scale = POINTS_PER_INCH / dpi;
+    const r = parseInt(c.colorHex.slice(1, 3), 16) / 255;
+    const g = parseInt(c.colorHex.slice(3, 5), 16) / 255;
+    const b = parseInt(c.colorHex.slice(5, 7), 16) / 255;
+
+    // Flip to PDF's bottom-up coordinates and scale pixels to points
+    const content = `q ${fmt(scale)} 0 0 ${fmt(-scale)} 0 ${fmt(height * scale)} cm\n${pageContent(c)}\nQ`;
+    const contentId = add(`<< /Length ${new TextEncoder().encode(content).length} >>\nstream\n${content}\nendstream`);
+    const tintId = add(`<< /FunctionType 2 /Domain [0 1] /C0 [1 1 1] /C1 [${fmt(r)} ${fmt(g)} ${fmt(b)}] /N 1 >>`);
+    const pageId = add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${fmt(width * scale)} ${fmt(height * scale)}] ` +
+      `/Resources << /ColorSpace << /CS0 [/Separation ${pdfName(c.name)} /DeviceRGB ${tintId} 0 R] >> >> ` +
+      `/Contents ${contentId} 0 R >>`
+    );
+    pageIds.push(pageId);
+  }
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let offset = 0;
+  const push = (text: string) => {
+    const bytes = encoder.encode(text);
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+
+  push('%PDF-1.4\n');
+  objects.forEach((body, idx) => {
+    offsets.push(offset);
+    push(`${idx + 1} 0 obj\n${body}\nendobj\n`);
+  });
+
+  const xrefOffset = offset;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  push(offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join(''));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
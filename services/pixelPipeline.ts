@@ -0,0 +1,672 @@
+import { ChannelResult, CmykSettings, ImageAdjustments, ProcessingConfig, SeparationMode, SeparationStage } from '../types';
+import { deltaE76, getDeltaE, hexToLab, rgbToLab } from './colorScience';
+import { createCmykTransform } from './iccProfile';
+import { dilate, erode } from './morphology';
+import { CMYK_SCREEN_ANGLES, DEFAULT_SCREEN_ANGLE, assignSpotAngles, meanCoverage } from './screenAngles';
+import { createCoverageSolver } from './simProcess';
+import { trapDensities } from './trapping';
+
+/*
+ * DOM-free pixel core of the separation. Everything here works on raw RGBA
+ * and density buffers so it can run inside a Web Worker.
+ *
+ * The adjusted image is never held whole: separators take it as strips of
+ * whole rows, top to bottom, and write straight into the channel densities.
+ * Only the neighbourhood passes (chokes, anti-aliasing, trapping) wait for
+ * the last strip, and they work on the densities in place.
+ */
+
+// A separated channel; the image size is attached once the whole job is done
+export type SeparatedChannel = Omit<ChannelResult, 'width' | 'height'>;
+
+export type ProgressCallback = (fraction: number) => void;
+
+// Pixel loops report progress every 2^18 bytes (64k pixels)
+const PROGRESS_STRIDE = (1 << 18) - 1;
+
+// Alpha below which a pixel counts as cut out of the design
+const OPAQUE_ALPHA = 250;
+
+// User mask bits, one byte per pixel
+export const MASK_ERASE = 1;
+export const MASK_KEEP = 2;
+
+/**
+ * Applies Brightness, Contrast, Gamma, Background Removal, User Mask and the
+ * garment knockout to an RGBA buffer in place.
+ *
+ * @param data RGBA pixels
+ * @param adj Adjustment settings
+ * @param maskData Optional mask of the same size, one byte per pixel of MASK_ERASE / MASK_KEEP bits
+ * @param garment Optional garment knockout: ink fades out where the image matches the shirt
+ * @param topLeft RGB of the image's top-left pixel for 'auto' background removal,
+ *   needed when `data` is a strip from further down the image
+ * @returns Whether any pixel is see-through before the knockout (transparent
+ *   upload, removed background or masked out), which decides the underbase mode
+ */
+export const adjustPixels = (
+  data: Uint8ClampedArray,
+  adj: ImageAdjustments,
+  maskData?: Uint8Array | null,
+  garment?: Pick<ProcessingConfig, 'garmentColor' | 'knockout' | 'colorMetric'> | null,
+  progress?: ProgressCallback,
+  topLeft: ArrayLike<number> = data
+): boolean => {
+  // Pre-calculate contrast factor
+  const contrastFactor = (259 * (adj.contrast + 255)) / (255 * (259 - adj.contrast));
+
+  // Determine target background color for removal
+  let targetR = 255;
+  let targetG = 255;
+  let targetB = 255;
+  
+  if (adj.removeBg) {
+    if (adj.bgRemoveMode === 'black') {
+      targetR = 0; targetG = 0; targetB = 0;
+    } else if (adj.bgRemoveMode === 'custom') {
+      targetR = parseInt(adj.customBgColor.slice(1, 3), 16);
+      targetG = parseInt(adj.customBgColor.slice(3, 5), 16);
+      targetB = parseInt(adj.customBgColor.slice(5, 7), 16);
+    } else if (adj.bgRemoveMode === 'auto') {
+      // Sample the top-left pixel as the background color
+      targetR = topLeft[0];
+      targetG = topLeft[1];
+      targetB = topLeft[2];
+    }
+  }
+
+  const knockout = garment?.knockout.enabled ? garment.knockout : null;
+  const garmentLab = garment ? hexToLab(garment.garmentColor) : null;
+  const deltaE = getDeltaE(garment?.colorMetric ?? 'de2000');
+
+  // Pre-calculate squared tolerance for distance check
+  const tolerance = (adj.bgThreshold / 100) * 442;
+  const toleranceSq = tolerance * tolerance;
+  let cutOut = false;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (progress && (i & PROGRESS_STRIDE) === 0) progress(i / data.length);
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    let a = data[i + 3];
+
+    // 1. Brightness
+    r += adj.brightness;
+    g += adj.brightness;
+    b += adj.brightness;
+
+    // 2. Contrast
+    r = contrastFactor * (r - 128) + 128;
+    g = contrastFactor * (g - 128) + 128;
+    b = contrastFactor * (b - 128) + 128;
+
+    // 3. Gamma
+    if (adj.gamma !== 1) {
+      r = 255 * Math.pow(Math.max(0, Math.min(255, r)) / 255, 1 / adj.gamma);
+      g = 255 * Math.pow(Math.max(0, Math.min(255, g)) / 255, 1 / adj.gamma);
+      b = 255 * Math.pow(Math.max(0, Math.min(255, b)) / 255, 1 / adj.gamma);
+    }
+
+    // Clamp values
+    r = Math.max(0, Math.min(255, r));
+    g = Math.max(0, Math.min(255, g));
+    b = Math.max(0, Math.min(255, b));
+
+    // 4. Background Removal & Masking
+    
+    // Check User Mask First
+    let forceRemove = false;
+    let forceKeep = false;
+
+    if (maskData) {
+      forceRemove = (maskData[i >> 2] & MASK_ERASE) !== 0;
+      forceKeep = (maskData[i >> 2] & MASK_KEEP) !== 0;
+    }
+
+    if (forceRemove) {
+      a = 0;
+    } else if (forceKeep) {
+      // Do nothing, keep 'a' as is (opaque or original alpha), skip auto removal
+    } else if (adj.removeBg) {
+      // Apply Auto Removal Logic
+      if (adj.bgRemoveMode === 'white') {
+        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+        const cutoff = 255 - (adj.bgThreshold * 2.5);
+        if (luminance > cutoff) a = 0;
+      } else {
+        const distSq = 
+          (r - targetR) * (r - targetR) + 
+          (g - targetG) * (g - targetG) + 
+          (b - targetB) * (b - targetB);
+        
+        if (distSq <= toleranceSq) {
+          a = 0;
+        }
+      }
+    }
+
+    if (a < OPAQUE_ALPHA) cutOut = true;
+
+    // 5. Garment knockout: no ink where the image already looks like the shirt
+    if (knockout && garmentLab && !forceKeep && a > 0) {
+      const dE = deltaE(garmentLab, rgbToLab(r, g, b));
+      const t = Math.min(1, Math.max(0, dE - knockout.tolerance) / Math.max(1, knockout.softness));
+      a *= t * t * (3 - 2 * t);
+    }
+
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = a;
+  }
+  return cutOut;
+};
+
+/**
+ * Writes a density map into RGBA pixels as black film: alpha carries the ink.
+ */
+export const paintDensity = (density: Uint8ClampedArray, rgba: Uint8ClampedArray) => {
+  for (let i = 0; i < density.length; i++) {
+    const idx = i * 4;
+    rgba[idx] = 0;
+    rgba[idx + 1] = 0;
+    rgba[idx + 2] = 0;
+    rgba[idx + 3] = density[i];
+  }
+};
+
+/**
+ * One separator's pass over the image. `strip` separates a strip of adjusted
+ * RGBA pixels into the channel densities, starting at pixel `offset`;
+ * `finish` runs what needs whole channels (chokes, blurs, screen angles)
+ * once every strip is in.
+ */
+interface StripSeparator {
+  strip: (px: Uint8ClampedArray, offset: number) => void;
+  finish: () => SeparatedChannel[];
+}
+
+/**
+ * Underbase white. A design cut out of its background is backed wherever it
+ * has ink (alpha); a full-frame image by its darkness. `cutOut` comes from
+ * `adjustPixels`, so the garment knockout lowering alpha doesn't switch modes.
+ */
+export const whiteBaseSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig,
+  cutOut: boolean
+): StripSeparator => {
+  const baseArr = new Uint8ClampedArray(width * height);
+  const { choke, darkPullback, maxDensity } = config.underbase;
+
+  return {
+    strip: (px, offset) => {
+      for (let i = 0; i < px.length; i += 4) {
+        const r = px[i];
+        const g = px[i + 1];
+        const b = px[i + 2];
+        const a = px[i + 3];
+        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+
+        let val = 0;
+        if (cutOut) {
+           val = a; 
+        } else {
+           val = (255 - luminance) * (a / 255);
+        }
+
+        // Density curve: less white under dark colors, where it would only dull the ink
+        const darkness = 1 - luminance / 255;
+        val *= (1 - (darkPullback / 100) * darkness * darkness) * (maxDensity / 100);
+        baseArr[offset + i / 4] = val;
+      }
+    },
+    finish: () => {
+      if (choke >= 0) erode(baseArr, width, height, choke, baseArr);
+      else dilate(baseArr, width, height, -choke, baseArr);
+
+      return [{ 
+        name: 'White Underbase', 
+        colorHex: '#e2e8f0', 
+        density: baseArr,
+        screenAngle: DEFAULT_SCREEN_ANGLE,
+        lpi: config.lpi,
+        isUnderbase: true
+      }];
+    }
+  };
+};
+
+/**
+ * Highlight white: a second white printed over the colors in the brightest
+ * parts of the image, ramping in from the luminance threshold.
+ */
+export const highlightWhiteSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig
+): StripSeparator => {
+  const whiteArr = new Uint8ClampedArray(width * height);
+  const threshold = Math.min(0.99, config.underbase.highlightThreshold / 100) * 255;
+
+  return {
+    strip: (px, offset) => {
+      for (let i = 0; i < px.length; i += 4) {
+        const alpha = px[i + 3] / 255;
+        if (alpha === 0) continue;
+
+        const luminance = 0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2];
+        if (luminance <= threshold) continue;
+        const t = (luminance - threshold) / (255 - threshold);
+        whiteArr[offset + i / 4] = t * t * (3 - 2 * t) * 255 * alpha;
+      }
+    },
+    finish: () => [{
+      name: 'Highlight White',
+      colorHex: '#ffffff',
+      density: whiteArr,
+      screenAngle: DEFAULT_SCREEN_ANGLE,
+      lpi: config.lpi,
+      opaque: true
+    }]
+  };
+};
+
+/**
+ * Built-in RGB -> CMYK conversion with adjustable black generation.
+ *
+ * The gray component min(C, M, Y) is replaced by black from the start point
+ * on, up to the given amount. GCR does so in every color; UCR only in
+ * neutrals, fading out as saturation rises.
+ */
+const createBlackGeneration = (settings: CmykSettings) => {
+  const amount = settings.blackAmount / 100;
+  const start = Math.min(0.99, settings.blackStart / 100);
+  const result = new Float32Array(4);
+
+  return (r: number, g: number, b: number): Float32Array => {
+    const c = 1 - r / 255;
+    const m = 1 - g / 255;
+    const y = 1 - b / 255;
+    const gray = Math.min(c, m, y);
+
+    let k = gray <= start ? 0 : Math.min(gray, (amount * (gray - start)) / (1 - start));
+    if (settings.blackGeneration === 'ucr') {
+      k *= 1 - (Math.max(c, m, y) - gray);
+    }
+
+    result[0] = k < 1 ? (c - k) / (1 - k) : 0;
+    result[1] = k < 1 ? (m - k) / (1 - k) : 0;
+    result[2] = k < 1 ? (y - k) / (1 - k) : 0;
+    result[3] = k;
+    return result;
+  };
+};
+
+/**
+ * CMYK process separation, through the output profile's B2A table when one is
+ * selected (its black generation replaces the GCR/UCR settings) or the
+ * built-in conversion otherwise. The total ink limit applies to both.
+ */
+export const cmykSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig
+): StripSeparator => {
+  const cArr = new Uint8ClampedArray(width * height);
+  const mArr = new Uint8ClampedArray(width * height);
+  const yArr = new Uint8ClampedArray(width * height);
+  const kArr = new Uint8ClampedArray(width * height);
+
+  const toCmyk = config.iccProfile
+    ? createCmykTransform(config.iccProfile, config.cmyk.renderingIntent)
+    : createBlackGeneration(config.cmyk);
+  const inkLimit = config.cmyk.totalInkLimit / 100;
+
+  return {
+    strip: (px, offset) => {
+      for (let i = 0; i < px.length; i += 4) {
+        const alpha = px[i + 3] / 255;
+        if (alpha === 0) continue;
+
+        let [c, m, y, k] = toCmyk(px[i], px[i + 1], px[i + 2]);
+
+        // Total area coverage: keep black, pull back the colored inks
+        const total = c + m + y + k;
+        if (total > inkLimit) {
+          const scale = Math.max(0, inkLimit - k) / Math.max(1e-6, c + m + y);
+          c *= scale;
+          m *= scale;
+          y *= scale;
+        }
+
+        const pIndex = offset + i / 4;
+        cArr[pIndex] = c * 255 * alpha;
+        mArr[pIndex] = m * 255 * alpha;
+        yArr[pIndex] = y * 255 * alpha;
+        kArr[pIndex] = k * 255 * alpha;
+      }
+    },
+    finish: () => [
+      { name: 'Cyan', colorHex: '#00FFFF', density: cArr, screenAngle: CMYK_SCREEN_ANGLES.cyan, lpi: config.lpi },
+      { name: 'Magenta', colorHex: '#FF00FF', density: mArr, screenAngle: CMYK_SCREEN_ANGLES.magenta, lpi: config.lpi },
+      { name: 'Yellow', colorHex: '#FFFF00', density: yArr, screenAngle: CMYK_SCREEN_ANGLES.yellow, lpi: config.lpi },
+      { name: 'Key (Black)', colorHex: '#000000', density: kArr, screenAngle: CMYK_SCREEN_ANGLES.black, lpi: config.lpi },
+    ]
+  };
+};
+
+export const spotColorSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig
+): StripSeparator => {
+  const deltaE = getDeltaE(config.colorMetric);
+  const targets = config.spotColors.map(sc => ({ ...sc, lab: hexToLab(sc.color) }));
+
+  const channels = targets.map(() => new Uint8ClampedArray(width * height));
+
+  return {
+    strip: (px, offset) => {
+      for (let i = 0; i < px.length; i += 4) {
+        const alpha = px[i + 3] / 255;
+        if (alpha === 0) continue;
+
+        const lab = rgbToLab(px[i], px[i + 1], px[i + 2]);
+
+        targets.forEach((target, idx) => {
+          // Full ink at an exact match, smoothly fading to none at `threshold` ΔE
+          const t = Math.min(1, deltaE(target.lab, lab) / Math.max(1, target.threshold));
+          const similarity = 1 - t * t * (3 - 2 * t);
+          channels[idx][offset + i / 4] = similarity * 255 * alpha;
+        });
+      }
+    },
+    finish: () => {
+      const angles = assignSpotAngles(channels.map(meanCoverage));
+
+      return targets.map((t, idx) => ({
+        name: t.name,
+        colorHex: t.color,
+        density: channels[idx],
+        screenAngle: angles[idx],
+        lpi: config.lpi,
+        inkId: t.inkId
+      }));
+    }
+  };
+};
+
+/**
+ * Averages every pixel with its 3x3 neighbourhood in place, turning hard ink
+ * boundaries into a one-pixel ramp. Only the row above and the current row
+ * are kept as they were.
+ */
+const boxBlur3 = (src: Uint8ClampedArray, width: number, height: number) => {
+  let above = new Uint8ClampedArray(width);
+  let current = new Uint8ClampedArray(width);
+  for (let y = 0; y < height; y++) {
+    [above, current] = [current, above];
+    current.set(src.subarray(y * width, (y + 1) * width));
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= height) continue;
+        const row = dy < 0 ? above : dy === 0 ? current : src.subarray(yy * width, (yy + 1) * width);
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= width) continue;
+          sum += row[xx];
+          count++;
+        }
+      }
+      src[y * width + x] = sum / count;
+    }
+  }
+};
+
+/**
+ * Index color separation: every pixel goes to its nearest spot ink at full
+ * strength, so inks never stack. Pixels that sit within the overprint
+ * tolerance of a second ink also print that ink, fading out as the gap grows.
+ */
+export const indexColorSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig
+): StripSeparator => {
+  const deltaE = getDeltaE(config.colorMetric);
+  const targets = config.spotColors.map(sc => ({ ...sc, lab: hexToLab(sc.color) }));
+  const { antiAlias, overprintTolerance } = config.index;
+
+  const channels = targets.map(() => new Uint8ClampedArray(width * height));
+
+  const distances = new Float64Array(targets.length);
+
+  return {
+    strip: (px, offset) => {
+      if (targets.length === 0) return;
+      for (let i = 0; i < px.length; i += 4) {
+        const alpha = px[i + 3] / 255;
+        if (alpha === 0) continue;
+
+        const lab = rgbToLab(px[i], px[i + 1], px[i + 2]);
+
+        let best = 0;
+        let runnerUp = -1;
+        for (let t = 0; t < targets.length; t++) {
+          distances[t] = deltaE(targets[t].lab, lab);
+          if (distances[t] < distances[best]) {
+            runnerUp = best;
+            best = t;
+          } else if (t !== best && (runnerUp === -1 || distances[t] < distances[runnerUp])) {
+            runnerUp = t;
+          }
+        }
+
+        const p = offset + i / 4;
+        channels[best][p] = 255 * alpha;
+
+        if (overprintTolerance > 0 && runnerUp !== -1) {
+          const gap = distances[runnerUp] - distances[best];
+          if (gap < overprintTolerance) {
+            channels[runnerUp][p] = (1 - gap / overprintTolerance) * 255 * alpha;
+          }
+        }
+      }
+    },
+    finish: () => {
+      if (antiAlias) {
+        channels.forEach(ch => boxBlur3(ch, width, height));
+      }
+
+      const angles = assignSpotAngles(channels.map(meanCoverage));
+
+      return targets.map((t, idx) => ({
+        name: t.name,
+        colorHex: t.color,
+        density: channels[idx],
+        screenAngle: angles[idx],
+        lpi: config.lpi,
+        inkId: t.inkId
+      }));
+    }
+  };
+};
+
+// Inks this close to paper white (ΔE76) serve as the highlight white
+const HIGHLIGHT_WHITE_TOLERANCE = 5;
+
+/**
+ * Simulated process separation for dark garments. Per-pixel coverage of the
+ * spot inks (plus a highlight white) is solved against the garment color;
+ * the underbase backs every inked area and the highlight white is choked so
+ * it stays inside the colors around it.
+ *
+ * Print order: underbase, color inks, highlight white.
+ */
+export const simulatedProcessSeparator = (
+  width: number,
+  height: number,
+  config: ProcessingConfig
+): StripSeparator => {
+  // Reuse a white the user listed, otherwise add one. Only one white can be the
+  // choked highlight white; any further whites print as ordinary inks.
+  const paperWhite = hexToLab('#ffffff');
+  const userWhite = config.spotColors.find(sc => deltaE76(hexToLab(sc.color), paperWhite) <= HIGHLIGHT_WHITE_TOLERANCE);
+  const colorInks = config.spotColors.filter(sc => sc !== userWhite);
+  const white = { name: userWhite?.name ?? 'Highlight White', color: userWhite?.color ?? '#ffffff' };
+
+  const solve = createCoverageSolver([...colorInks.map(sc => sc.color), white.color], config.garmentColor);
+  const whiteIdx = colorInks.length;
+
+  const channels = colorInks.map(() => new Uint8ClampedArray(width * height));
+  const whiteArr = new Uint8ClampedArray(width * height);
+  const baseArr = new Uint8ClampedArray(width * height);
+
+  return {
+    strip: (px, offset) => {
+      for (let i = 0; i < px.length; i += 4) {
+        const alpha = px[i + 3] / 255;
+        if (alpha === 0) continue;
+
+        const coverage = solve(px[i], px[i + 1], px[i + 2]);
+        const p = offset + i / 4;
+        let total = 0;
+        for (let k = 0; k < colorInks.length; k++) {
+          channels[k][p] = coverage[k] * 255 * alpha;
+          total += coverage[k];
+        }
+        whiteArr[p] = coverage[whiteIdx] * 255 * alpha;
+        baseArr[p] = Math.min(1, total + coverage[whiteIdx]) * 255 * alpha;
+      }
+    },
+    finish: () => {
+      const highlight = erode(whiteArr, width, height, config.simProcess.highlightChoke, whiteArr);
+      // The underbase is screened along with the inks, usually taking the default angle as the heaviest
+      const [baseAngle, ...angles] = assignSpotAngles([baseArr, ...channels, highlight].map(meanCoverage));
+
+      return [
+        {
+          name: 'Underbase',
+          colorHex: '#e2e8f0',
+          density: baseArr,
+          screenAngle: baseAngle,
+          lpi: config.lpi,
+          isUnderbase: true
+        },
+        // The solver mixes the inks as opaque covers, so the composite has to stack them that way
+        ...colorInks.map((sc, idx) => ({
+          name: sc.name,
+          colorHex: sc.color,
+          density: channels[idx],
+          screenAngle: angles[idx],
+          lpi: config.lpi,
+          opaque: true,
+          inkId: sc.inkId
+        })),
+        {
+          name: white.name,
+          colorHex: white.color,
+          density: highlight,
+          screenAngle: angles[whiteIdx],
+          lpi: config.lpi,
+          opaque: true,
+          inkId: userWhite?.inkId
+        }
+      ];
+    }
+  };
+};
+
+/**
+ * Reassigns the screen angles of every channel not in `fixed`, the whites
+ * included, so no white lands on the angle of a heavy ink. Fixed channels
+ * keep theirs and the rest keep clear of them.
+ */
+const screenWithWhites = (channels: SeparatedChannel[], fixed: SeparatedChannel[]): SeparatedChannel[] => {
+  const free = channels.filter(c => !fixed.includes(c));
+  const angles = assignSpotAngles(free.map(c => meanCoverage(c.density)), fixed.map(c => c.screenAngle));
+  return channels.map(c => {
+    const idx = free.indexOf(c);
+    return idx < 0 ? c : { ...c, screenAngle: angles[idx] };
+  });
+};
+
+/**
+ * Runs the separation selected in the config on adjusted pixels, fed as
+ * strips of whole rows, top to bottom: the color channels, trapping for spot
+ * work, then the underbase and highlight white. All separators share one
+ * pass over the strips.
+ *
+ * @param trapWidthPx Trap width in pixels, 0 to skip trapping
+ * @param cutOut Whether the image is cut out of its background, as reported by `adjustPixels`
+ */
+export const separate = (
+  strips: Iterable<Uint8ClampedArray>,
+  width: number,
+  height: number,
+  config: ProcessingConfig,
+  trapWidthPx: number,
+  cutOut: boolean,
+  progress?: (stage: SeparationStage, fraction: number) => void
+): SeparatedChannel[] => {
+  let color: StripSeparator;
+  switch (config.mode) {
+    case SeparationMode.CMYK:
+      color = cmykSeparator(width, height, config);
+      break;
+    case SeparationMode.INDEX:
+      color = indexColorSeparator(width, height, config);
+      break;
+    case SeparationMode.SIMULATED_PROCESS:
+      // Produces its own underbase and highlight white
+      color = simulatedProcessSeparator(width, height, config);
+      break;
+    default:
+      color = spotColorSeparator(width, height, config);
+  }
+
+  const withWhites = config.includeWhiteBase && config.mode !== SeparationMode.SIMULATED_PROCESS;
+  const base = withWhites ? whiteBaseSeparator(width, height, config, cutOut) : null;
+  const highlight = withWhites && config.underbase.highlightWhite ? highlightWhiteSeparator(width, height, config) : null;
+
+  let offset = 0;
+  for (const px of strips) {
+    progress?.('separate', offset / (width * height));
+    color.strip(px, offset);
+    base?.strip(px, offset);
+    highlight?.strip(px, offset);
+    offset += px.length / 4;
+  }
+
+  let channels = color.finish();
+  if (config.mode === SeparationMode.SIMULATED_PROCESS) return channels;
+
+  // Trap spot inks before the white layers are added
+  if (trapWidthPx > 0 && (config.mode === SeparationMode.SPOT || config.mode === SeparationMode.INDEX)) {
+    progress?.('trap', 0);
+    channels = trapDensities(channels, width, height, trapWidthPx);
+  }
+
+  if (base) {
+    progress?.('underbase', 0);
+    // Add white base to the beginning
+    channels.unshift(...base.finish());
+
+    // Highlight white is printed last, over the colors
+    if (highlight) {
+      channels.push(...highlight.finish());
+    }
+
+    // Process inks keep their standard angles; spot inks are screened again with the whites
+    const fixed = config.mode === SeparationMode.CMYK ? channels.filter(c => !c.isUnderbase && !c.opaque) : [];
+    channels = screenWithWhites(channels, fixed);
+  }
+
+  return channels;
+};
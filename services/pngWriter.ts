@@ -0,0 +1,99 @@
+import { crc32 } from './zipWriter';
+
+/*
+ * Streaming PNG encoder. Pixels come in as strips of whole rows, top to
+ * bottom, and go straight through a CompressionStream, so only the
+ * compressed file is ever held, never the image.
+ */
+
+const SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+// Each row stores its difference to the row above, which flat film areas compress well
+const FILTER_UP = 2;
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+};
+
+/**
+ * Encodes 8-bit samples, `channels` per pixel, fed as strips of whole rows.
+ * Each compressed block becomes its own IDAT chunk as it comes out of the
+ * stream.
+ */
+const encodePng = async (
+  width: number,
+  height: number,
+  colorType: number,
+  channels: number,
+  strips: Iterable<Uint8Array | Uint8ClampedArray>
+): Promise<Blob> => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = colorType;
+
+  const deflate = new CompressionStream('deflate');
+  const writer = deflate.writable.getWriter();
+  // Read concurrently, or the stream would stop taking rows once its queue fills
+  const idat = (async () => {
+    const parts: Uint8Array[] = [];
+    const reader = deflate.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return parts;
+      parts.push(chunk('IDAT', value));
+    }
+  })();
+
+  const stride = width * channels;
+  const previous = new Uint8Array(stride);
+  for (const strip of strips) {
+    const rows = strip.length / stride;
+    const filtered = new Uint8Array(rows * (stride + 1));
+    for (let row = 0; row < rows; row++) {
+      const src = row * stride;
+      const dst = row * (stride + 1);
+      filtered[dst] = FILTER_UP;
+      for (let i = 0; i < stride; i++) {
+        filtered[dst + 1 + i] = strip[src + i] - previous[i];
+        previous[i] = strip[src + i];
+      }
+    }
+    await writer.write(filtered);
+  }
+  await writer.close();
+
+  return new Blob([SIGNATURE, chunk('IHDR', header), ...(await idat), chunk('IEND', new Uint8Array(0))], {
+    type: 'image/png'
+  });
+};
+
+/**
+ * Encodes RGBA pixels, fed as strips of whole rows, as a PNG.
+ */
+export const writeRgbaPng = (width: number, height: number, strips: Iterable<Uint8ClampedArray>): Promise<Blob> =>
+  encodePng(width, height, COLOR_RGBA, 4, strips);
+
+/**
+ * Encodes a density map, fed as strips of whole rows, as black film: alpha
+ * carries the ink.
+ */
+export const writeDensityPng = (width: number, height: number, strips: Iterable<Uint8ClampedArray>): Promise<Blob> =>
+  encodePng(width, height, COLOR_GRAY_ALPHA, 2, {
+    *[Symbol.iterator]() {
+      for (const strip of strips) {
+        const samples = new Uint8Array(strip.length * 2);
+        for (let i = 0; i < strip.length; i++) samples[i * 2 + 1] = strip[i];
+        yield samples;
+      }
+    }
+  });
@@ -0,0 +1,109 @@
+import { ProjectSummary, SeparationJob } from '../types';
+
+/*
+ * Recent projects kept in the browser's IndexedDB. Summaries (name, date,
+ * thumbnail) and full jobs live in separate stores so listing the library
+ * doesn't load every image.
+ */
+
+const DB_NAME = 'separation-projects';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const JOBS = 'jobs';
+
+// Older projects are dropped past this many; each one holds a full image and mask
+const MAX_PROJECTS = 20;
+
+let db: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!db) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(SUMMARIES, { keyPath: 'id' });
+      req.result.createObjectStore(JOBS);
+    };
+    db = request(req).catch(err => {
+      db = null; // Let the next call try again
+      throw err;
+    });
+  }
+  return db;
+};
+
+/**
+ * Every saved project, most recently saved first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const store = (await openDb()).transaction(SUMMARIES).objectStore(SUMMARIES);
+  const summaries = await request(store.getAll() as IDBRequest<ProjectSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const putProject = async (job: SeparationJob, summary: ProjectSummary): Promise<void> => {
+  const tx = (await openDb()).transaction([SUMMARIES, JOBS], 'readwrite');
+  const summaries = tx.objectStore(SUMMARIES);
+  const jobs = tx.objectStore(JOBS);
+  summaries.put(summary);
+  jobs.put(job, summary.id);
+
+  // Evicts the least recently saved projects over the cap
+  const all = summaries.getAll() as IDBRequest<ProjectSummary[]>;
+  all.onsuccess = () => {
+    all.result
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(MAX_PROJECTS)
+      .forEach(p => {
+        summaries.delete(p.id);
+        jobs.delete(p.id);
+      });
+  };
+  await done(tx);
+};
+
+/**
+ * Stores a job, replacing the project with the same `id` if given. Keeps at
+ * most MAX_PROJECTS, and when storage runs out drops the oldest others until
+ * the job fits.
+ */
+export const saveProject = async (job: SeparationJob, thumbnail: Blob, id: string = Date.now().toString()): Promise<ProjectSummary> => {
+  const summary: ProjectSummary = { id, name: job.name, updatedAt: Date.now(), thumbnail };
+  for (;;) {
+    try {
+      await putProject(job, summary);
+      return summary;
+    } catch (err) {
+      if ((err as DOMException | null)?.name !== 'QuotaExceededError') throw err;
+      const oldest = (await listProjects()).filter(p => p.id !== id).pop();
+      if (!oldest) throw err;
+      await deleteProject(oldest.id);
+    }
+  }
+};
+
+export const loadProject = async (id: string): Promise<SeparationJob> => {
+  const store = (await openDb()).transaction(JOBS).objectStore(JOBS);
+  const job = await request(store.get(id) as IDBRequest<SeparationJob | undefined>);
+  if (!job) throw new Error(`Project not found: ${id}`);
+  return job;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const tx = (await openDb()).transaction([SUMMARIES, JOBS], 'readwrite');
+  tx.objectStore(SUMMARIES).delete(id);
+  tx.objectStore(JOBS).delete(id);
+  await done(tx);
+};
@@ -0,0 +1,121 @@
+import { ChannelRaster } from '../types';
+import { ByteWriter, createByteWriter } from './byteWriter';
+
+// Photoshop color mode for documents made only of spot channels
+const MODE_MULTICHANNEL = 7;
+// DisplayInfo channel kind for spot color channels
+const KIND_SPOT = 2;
+
+const RES_RESOLUTION_INFO = 1005;
+const RES_ALPHA_NAMES = 1006;
+const RES_UNICODE_ALPHA_NAMES = 1045;
+const RES_DISPLAY_INFO = 1077;
+
+const ascii = (text: string): number[] =>
+  Array.from(text, ch => (ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 0x3f));
+
+const writeResource = (w: ByteWriter, id: number, data: Uint8Array) => {
+  w.ascii('8BIM');
+  w.u16(id);
+  w.u16(0); // Empty Pascal name, padded to even length
+  w.u32(data.length);
+  w.raw(data);
+  if (data.length % 2) w.u8(0);
+};
+
+const resolutionInfo = (dpi: number): Uint8Array => {
+  const w = createByteWriter();
+  const fixed = Math.round(dpi * 65536);
+  w.u32(fixed); w.u16(1); w.u16(1); // Horizontal, pixels per inch, inches
+  w.u32(fixed); w.u16(1); w.u16(1); // Vertical
+  return w.toArray();
+};
+
+const alphaNames = (channels: Pick<ChannelRaster, 'name' | 'colorHex'>[]): Uint8Array => {
+  const w = createByteWriter();
+  for (const c of channels) {
+    const name = ascii(c.name).slice(0, 255);
+    w.u8(name.length);
+    w.raw(name);
+  }
+  return w.toArray();
+};
+
+const unicodeAlphaNames = (channels: Pick<ChannelRaster, 'name' | 'colorHex'>[]): Uint8Array => {
+  const w = createByteWriter();
+  for (const c of channels) {
+    w.u32(c.name.length + 1);
+    for (let i = 0; i < c.name.length; i++) w.u16(c.name.charCodeAt(i));
+    w.u16(0);
+  }
+  return w.toArray();
+};
+
+const displayInfo = (channels: Pick<ChannelRaster, 'name' | 'colorHex'>[]): Uint8Array => {
+  const w = createByteWriter();
+  w.u32(1); // Version
+  for (const c of channels) {
+    w.u16(0); // RGB color space
+    w.u16(parseInt(c.colorHex.slice(1, 3), 16) * 257);
+    w.u16(parseInt(c.colorHex.slice(3, 5), 16) * 257);
+    w.u16(parseInt(c.colorHex.slice(5, 7), 16) * 257);
+    w.u16(0);
+    w.u16(100); // Solidity
+    w.u8(KIND_SPOT);
+    w.u8(0); // Padding
+  }
+  return w.toArray();
+};
+
+/**
+ * Writes a Multichannel Photoshop document where every separation is a
+ * named spot channel carrying its ink color. Pixel data is stored raw
+ * (uncompressed), with 0 meaning full ink as Photoshop expects.
+ *
+ * Channels are read one at a time and strip by strip, each strip handed to
+ * the Blob before the next is requested, so a lazily rendered sequence of
+ * films never needs even one of them whole in memory.
+ */
+export const writePsd = (channels: Iterable<ChannelRaster>, dpi: number): Blob => {
+  const names: Pick<ChannelRaster, 'name' | 'colorHex'>[] = [];
+  const planes: Blob[] = [];
+  let width = 0;
+  let height = 0;
+  for (const c of channels) {
+    if (names.length === 0) ({ width, height } = c);
+    if (c.width !== width || c.height !== height) throw new Error('Channels differ in size');
+    for (const strip of c.strips) {
+      const plane = new Uint8Array(strip.length);
+      for (let i = 0; i < plane.length; i++) plane[i] = 255 - strip[i];
+      planes.push(new Blob([plane]));
+    }
+    names.push({ name: c.name, colorHex: c.colorHex });
+  }
+  if (names.length === 0) throw new Error('No channels to export');
+
+  const header = createByteWriter();
+  header.ascii('8BPS');
+  header.u16(1); // Version
+  header.raw([0, 0, 0, 0, 0, 0]);
+  header.u16(names.length);
+  header.u32(height);
+  header.u32(width);
+  header.u16(8); // Bits per channel
+  header.u16(MODE_MULTICHANNEL);
+  header.u32(0); // Color mode data
+
+  const resources = createByteWriter();
+  writeResource(resources, RES_RESOLUTION_INFO, resolutionInfo(dpi));
+  writeResource(resources, RES_ALPHA_NAMES, alphaNames(names));
+  writeResource(resources, RES_UNICODE_ALPHA_NAMES, unicodeAlphaNames(names));
+  writeResource(resources, RES_DISPLAY_INFO, displayInfo(names));
+  header.u32(resources.length);
+
+  const trailer = createByteWriter();
+  trailer.u32(0); // Layer and mask information
+  trailer.u16(0); // Raw image data
+
+  return new Blob([header.toArray(), resources.toArray(), trailer.toArray(), ...planes], {
+    type: 'image/vnd.adobe.photoshop'
+  });
+};
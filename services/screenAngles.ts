@@ -0,0 +1,103 @@
+// Default screen ruling for textile printing
+export const DEFAULT_LPI = 55;
+
+// Common single-color screen angle, avoids 0/90 degree pattern alignment
+export const DEFAULT_SCREEN_ANGLE = 22.5;
+
+// Standard process angle set
+export const CMYK_SCREEN_ANGLES = {
+  cyan: 15,
+  magenta: 75,
+  yellow: 0,
+  black: 45
+};
+
+// Minimum separation between two high-coverage inks to stay clear of moiré
+export const MIN_ANGLE_SEPARATION = 30;
+
+// Mean density (0-1) above which an ink counts as high-coverage
+const HIGH_COVERAGE = 0.1;
+
+// Step of the candidate angle grid used for low-coverage inks
+const ANGLE_STEP = 7.5;
+
+/**
+ * Angular distance between two screens. Dots are symmetric under a 90 degree
+ * rotation, so screens repeat every 90 degrees.
+ */
+export const angleDistance = (a: number, b: number): number => {
+  const d = Math.abs(a - b) % 90;
+  return Math.min(d, 90 - d);
+};
+
+/**
+ * Mean density of a channel in the 0-1 range.
+ */
+export const meanCoverage = (density: Uint8ClampedArray): number => {
+  if (density.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < density.length; i++) sum += density[i];
+  return sum / (density.length * 255);
+};
+
+/**
+ * Picks a screen angle for every spot channel from its coverage.
+ *
+ * High-coverage inks are spread evenly over the 90 degree period starting at
+ * the default angle, which keeps them MIN_ANGLE_SEPARATION apart for up to three
+ * such inks (the geometric limit for symmetric dots; `angleConflicts` flags
+ * jobs past it). Low-coverage inks then take the free grid angle farthest from
+ * everything already assigned. With `reserved` angles (screens that keep their
+ * own, like process inks) every ink takes the grid angle farthest from those.
+ */
+export const assignSpotAngles = (coverages: number[], reserved: number[] = []): number[] => {
+  const angles = new Array<number>(coverages.length).fill(DEFAULT_SCREEN_ANGLE);
+  const order = coverages
+    .map((coverage, idx) => ({ coverage, idx }))
+    .sort((a, b) => b.coverage - a.coverage);
+
+  const high = reserved.length === 0 ? order.filter(o => o.coverage >= HIGH_COVERAGE) : [];
+  const rest = order.filter(o => !high.includes(o));
+
+  const assigned: number[] = [...reserved];
+  const spacing = 90 / Math.max(1, high.length);
+  high.forEach((o, n) => {
+    const angle = (DEFAULT_SCREEN_ANGLE + n * spacing) % 90;
+    angles[o.idx] = angle;
+    assigned.push(angle);
+  });
+
+  for (const o of rest) {
+    let best = DEFAULT_SCREEN_ANGLE;
+    let bestScore = -1;
+    for (let candidate = 0; candidate < 90; candidate += ANGLE_STEP) {
+      const score = assigned.length === 0
+        ? 90 - angleDistance(candidate, DEFAULT_SCREEN_ANGLE)
+        : Math.min(...assigned.map(a => angleDistance(a, candidate)));
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    angles[o.idx] = best;
+    assigned.push(best);
+  }
+
+  return angles;
+};
+
+/**
+ * Pairs of high-coverage channels (by index) screened closer than
+ * MIN_ANGLE_SEPARATION, which risk moiré. Unavoidable past three such inks.
+ */
+export const angleConflicts = (angles: number[], coverages: number[]): [number, number][] => {
+  const conflicts: [number, number][] = [];
+  for (let i = 0; i < angles.length; i++) {
+    if (coverages[i] < HIGH_COVERAGE) continue;
+    for (let j = i + 1; j < angles.length; j++) {
+      if (coverages[j] < HIGH_COVERAGE) continue;
+      if (angleDistance(angles[i], angles[j]) < MIN_ANGLE_SEPARATION - 1e-6) conflicts.push([i, j]);
+    }
+  }
+  return conflicts;
+};
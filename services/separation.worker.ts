@@ -0,0 +1,128 @@
+import { ChannelResult, ProcessingConfig, SeparationProgress } from '../types';
+import { adjustPixels, separate } from './pixelPipeline';
+import { writeRgbaPng } from './pngWriter';
+import { imageStrips } from './stripCanvas';
+
+// Everything that affects the adjusted image
+export type AdjustInput = Pick<ProcessingConfig, 'adjustments' | 'garmentColor' | 'knockout' | 'colorMetric'>;
+
+// Sent only when the mask changed since the worker last saw it
+export interface MaskUpdate {
+  revision: number;
+  data: Uint8Array | null; // MASK_ERASE / MASK_KEEP bits, one byte per pixel
+}
+
+export type WorkerRequest =
+  | { type: 'load'; id: number; image: ImageBitmap }
+  | { type: 'adjust'; id: number; adjust: AdjustInput; mask?: MaskUpdate }
+  | { type: 'separate'; id: number; adjust: AdjustInput; mask?: MaskUpdate; config: ProcessingConfig; trapWidthPx: number };
+
+export type WorkerResponse =
+  | { type: 'loaded'; id: number }
+  | { type: 'preview'; id: number; blob: Blob }
+  | { type: 'progress'; id: number; progress: SeparationProgress }
+  | { type: 'done'; id: number; channels: ChannelResult[] }
+  | { type: 'error'; id: number; message: string };
+
+// The decoded image is kept and re-read strip by strip for every preview and
+// separation; strips are adjusted on the way and dropped once used, so no
+// full-size RGBA buffer exists. Only whether the adjusted image is cut out
+// is remembered per adjustment/mask change, as the underbase needs it up front.
+let source: ImageBitmap | null = null;
+let mask: MaskUpdate = { revision: -1, data: null };
+let knownCutOut: { key: string; value: boolean } | null = null;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Throttle progress messages to whole percents
+let lastReported = '';
+const reporter = (id: number) => (progress: SeparationProgress) => {
+  const key = `${id}:${progress.stage}:${Math.floor(progress.fraction * 100)}`;
+  if (key === lastReported) return;
+  lastReported = key;
+  post({ type: 'progress', id, progress });
+};
+
+const adjustKey = (adjust: AdjustInput) => `${JSON.stringify(adjust)}#${mask.revision}`;
+
+/**
+ * The source image with levels, background removal, mask and knockout
+ * applied, as RGBA strips of whole rows. The mask is captured up front, as
+ * a new one may arrive while a preview is being encoded. Once the last strip
+ * is out, whether the image is cut out is remembered under its key.
+ */
+const adjustedStrips = (image: ImageBitmap, adjust: AdjustInput): Iterable<Uint8ClampedArray> => {
+  const key = adjustKey(adjust);
+  const maskData = mask.data;
+  return {
+    *[Symbol.iterator]() {
+      const { width } = image;
+      let topLeft: Uint8ClampedArray | null = null;
+      let anyCutOut = false;
+      let offset = 0;
+
+      for (const rgba of imageStrips(image)) {
+        topLeft ??= rgba.slice(0, 3);
+        const pixels = rgba.length / 4;
+        if (adjustPixels(rgba, adjust.adjustments, maskData?.subarray(offset, offset + pixels), adjust, undefined, topLeft)) anyCutOut = true;
+        offset += pixels;
+        yield rgba;
+      }
+      knownCutOut = { key, value: anyCutOut };
+    }
+  };
+};
+
+// Whether the adjusted image is cut out, from the last preview or an adjust-only pass over it
+const isCutOut = (image: ImageBitmap, adjust: AdjustInput, onProgress: (progress: SeparationProgress) => void): boolean => {
+  const key = adjustKey(adjust);
+  if (knownCutOut?.key !== key) {
+    let rows = 0;
+    for (const rgba of adjustedStrips(image, adjust)) {
+      rows += rgba.length / (image.width * 4);
+      onProgress({ stage: 'adjust', fraction: rows / image.height });
+    }
+  }
+  return knownCutOut?.key === key && knownCutOut.value;
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  try {
+    if (msg.type === 'load') {
+      source?.close();
+      source = msg.image;
+      mask = { revision: -1, data: null };
+      knownCutOut = null;
+      post({ type: 'loaded', id: msg.id });
+      return;
+    }
+
+    if (!source) throw new Error('No image loaded');
+    const { width, height } = source;
+    if (msg.mask) mask = msg.mask;
+
+    if (msg.type === 'adjust') {
+      post({ type: 'preview', id: msg.id, blob: await writeRgbaPng(width, height, adjustedStrips(source, msg.adjust)) });
+      return;
+    }
+
+    const report = reporter(msg.id);
+    const cutOut = isCutOut(source, msg.adjust, report);
+    const separated = separate(
+      adjustedStrips(source, msg.adjust),
+      width,
+      height,
+      msg.config,
+      msg.trapWidthPx,
+      cutOut,
+      (stage, fraction) => report({ stage, fraction })
+    );
+
+    // Densities are handed over, not copied; the worker keeps only the source image
+    const channels: ChannelResult[] = separated.map(channel => ({ ...channel, width, height }));
+    post({ type: 'done', id: msg.id, channels }, channels.map(c => c.density.buffer));
+  } catch (err) {
+    post({ type: 'error', id: msg.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
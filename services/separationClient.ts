@@ -0,0 +1,188 @@
+import { ChannelResult, ProcessingConfig, SeparationProgress } from '../types';
+import { imagePpi } from './filmOutput';
+import { loadImage } from './imageProcessor';
+import { MASK_ERASE, MASK_KEEP } from './pixelPipeline';
+import { imageStrips } from './stripCanvas';
+import { trapWidthPx } from './trapping';
+import type { AdjustInput, MaskUpdate, WorkerRequest, WorkerResponse } from './separation.worker';
+
+export interface SeparationTask {
+  promise: Promise<ChannelResult[]>;
+  cancel: () => void;
+}
+
+/**
+ * True for the rejection of a task that was cancelled by the user.
+ */
+export const isCancelled = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+interface PendingRequest {
+  resolve: (msg: WorkerResponse) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: SeparationProgress) => void;
+}
+
+// One long-lived worker keeps the decoded image between previews and
+// separations.
+let worker: Worker | null = null;
+let image: { src: string; ready: Promise<{ width: number; height: number }> } | null = null;
+let sentMaskRevision = -1;
+let nextId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const resetWorker = (reason: unknown) => {
+  worker?.terminate();
+  worker = null;
+  image = null;
+  sentMaskRevision = -1;
+  pending.forEach(p => p.reject(reason));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./separation.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    const request = pending.get(msg.id);
+    if (!request) return;
+    if (msg.type === 'progress') {
+      request.onProgress?.(msg.progress);
+      return;
+    }
+    pending.delete(msg.id);
+    if (msg.type === 'error') request.reject(new Error(msg.message));
+    else request.resolve(msg);
+  };
+  worker.onerror = (e) => resetWorker(new Error(e.message));
+  return worker;
+};
+
+const send = (
+  msg: WorkerRequest,
+  transfer: Transferable[] = [],
+  onProgress?: (progress: SeparationProgress) => void
+): Promise<WorkerResponse> =>
+  new Promise((resolve, reject) => {
+    pending.set(msg.id, { resolve, reject, onProgress });
+    getWorker().postMessage(msg, transfer);
+  });
+
+/**
+ * Decodes the image once and hands it to the worker. Later calls with the
+ * same source reuse what the worker already holds.
+ */
+const ensureImage = (src: string): Promise<{ width: number; height: number }> => {
+  if (image?.src === src) return image.ready;
+
+  const ready = loadImage(src)
+    .then(img => createImageBitmap(img))
+    .then(async bitmap => {
+      const size = { width: bitmap.width, height: bitmap.height };
+      await send({ type: 'load', id: nextId++, image: bitmap }, [bitmap]);
+      return size;
+    });
+  image = { src, ready };
+  sentMaskRevision = -1;
+  ready.catch(() => {
+    if (image?.ready === ready) image = null;
+  });
+  return ready;
+};
+
+// Packs the mask canvas (red erases, green keeps) into one byte per pixel, strip by strip
+const readMask = (userMask: HTMLCanvasElement | null, width: number, height: number): Uint8Array | null => {
+  // Ensure mask is same size (it should be from App.tsx, but safety check)
+  if (!userMask || userMask.width !== width || userMask.height !== height) return null;
+  const packed = new Uint8Array(width * height);
+  let offset = 0;
+  for (const rgba of imageStrips(userMask)) {
+    for (let i = 0; i < rgba.length; i += 4, offset++) {
+      packed[offset] = (rgba[i] > 10 ? MASK_ERASE : 0) | (rgba[i + 1] > 10 ? MASK_KEEP : 0);
+    }
+  }
+  return packed;
+};
+
+// The mask is read back from the canvas only when its revision moved on
+const maskUpdate = (
+  userMask: HTMLCanvasElement | null,
+  revision: number,
+  size: { width: number; height: number }
+): MaskUpdate | undefined => {
+  if (revision === sentMaskRevision) return undefined;
+  sentMaskRevision = revision;
+  return { revision, data: readMask(userMask, size.width, size.height) };
+};
+
+const transferables = (mask?: MaskUpdate): Transferable[] =>
+  mask?.data ? [mask.data.buffer] : [];
+
+// Fixed key order, so previews and separations hit the same cache entry
+const adjustInput = (source: AdjustInput): AdjustInput => ({
+  adjustments: source.adjustments,
+  garmentColor: source.garmentColor,
+  knockout: source.knockout,
+  colorMetric: source.colorMetric
+});
+
+/**
+ * Renders the adjusted image (levels, background removal, mask, knockout)
+ * as a PNG. The worker remembers whether the result is cut out, so a
+ * separation with the same settings reads the image only once.
+ *
+ * @param maskRevision Bump whenever the mask canvas is edited
+ */
+export const renderAdjustedPreview = async (
+  imageSrc: string,
+  userMask: HTMLCanvasElement | null,
+  maskRevision: number,
+  adjust: AdjustInput
+): Promise<Blob> => {
+  const size = await ensureImage(imageSrc);
+  const mask = maskUpdate(userMask, maskRevision, size);
+  const msg = await send({ type: 'adjust', id: nextId++, adjust: adjustInput(adjust), mask }, transferables(mask));
+  if (msg.type !== 'preview') throw new Error(`Unexpected worker response: ${msg.type}`);
+  return msg.blob;
+};
+
+/**
+ * Runs a separation in the background worker so the page stays responsive.
+ * Cancelling terminates the worker and rejects with an AbortError; the next
+ * request starts a fresh one.
+ */
+export const startSeparation = (
+  imageSrc: string,
+  userMask: HTMLCanvasElement | null,
+  maskRevision: number,
+  config: ProcessingConfig,
+  onProgress: (progress: SeparationProgress) => void
+): SeparationTask => {
+  let cancelled = false;
+  const abort = () => new DOMException('Separation cancelled', 'AbortError');
+
+  const promise = (async () => {
+    const size = await ensureImage(imageSrc);
+    if (cancelled) throw abort();
+    const mask = maskUpdate(userMask, maskRevision, size);
+    // Trap widths in mm follow the resolution the image prints at
+    const trap = config.trap.enabled ? trapWidthPx(config.trap, imagePpi(size.width, config.printWidthCm)) : 0;
+    const msg = await send(
+      { type: 'separate', id: nextId++, adjust: adjustInput(config), mask, config, trapWidthPx: trap },
+      transferables(mask),
+      onProgress
+    );
+    if (msg.type !== 'done') throw new Error(`Unexpected worker response: ${msg.type}`);
+    return msg.channels;
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      resetWorker(abort());
+    }
+  };
+};
@@ -0,0 +1,147 @@
+import { hexToRgb, srgbToLinear } from './colorScience';
+
+type Vec3 = [number, number, number];
+
+// Coverage is solved on a lattice of sRGB values and interpolated in between
+const GRID_STEPS = 33;
+const GRID_SPACING = 255 / (GRID_STEPS - 1);
+const ITERATIONS = 150;
+// Small penalty on coverage so equally good mixes prefer less ink
+const INK_PENALTY = 1e-3;
+
+const hexToLinear = (hex: string): Vec3 => {
+  const [r, g, b] = hexToRgb(hex);
+  return [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+};
+
+/**
+ * Euclidean projection onto { c >= 0, sum(c) <= 1 }.
+ */
+const projectCoverage = (c: Float64Array) => {
+  let sum = 0;
+  for (let i = 0; i < c.length; i++) {
+    if (c[i] < 0) c[i] = 0;
+    sum += c[i];
+  }
+  if (sum <= 1) return;
+
+  // Project onto the simplex sum(c) = 1 (Duchi et al.)
+  const sorted = Array.from(c).sort((a, b) => b - a);
+  let cumulative = 0;
+  let theta = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i];
+    const t = (cumulative - 1) / (i + 1);
+    if (sorted[i] - t > 0) theta = t;
+  }
+  for (let i = 0; i < c.length; i++) c[i] = Math.max(0, c[i] - theta);
+};
+
+/**
+ * Builds a per-pixel coverage solver for a set of opaque inks on a garment.
+ *
+ * Printed color is modelled as a linear mix in linear RGB: each ink covers its
+ * share of the area and the garment shows through the rest, so
+ * color = garment + sum(c_i * (ink_i - garment)) with c_i >= 0, sum(c_i) <= 1.
+ * Coverages are found by non-negative least squares (accelerated projected
+ * gradient) on a lattice of input colors, solved lazily and interpolated.
+ */
+export const createCoverageSolver = (inkHexes: string[], garmentHex: string) => {
+  const n = inkHexes.length;
+  const garment = hexToLinear(garmentHex);
+  // Columns of the mixing matrix: ink minus garment
+  const columns = inkHexes.map(hex => {
+    const ink = hexToLinear(hex);
+    return [ink[0] - garment[0], ink[1] - garment[1], ink[2] - garment[2]];
+  });
+
+  // Gram matrix A^T A + penalty, and a step size from its Frobenius bound
+  const gram = new Float64Array(n * n);
+  let frobenius = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const v = columns[i][0] * columns[j][0] + columns[i][1] * columns[j][1] + columns[i][2] * columns[j][2];
+      gram[i * n + j] = v + (i === j ? INK_PENALTY : 0);
+      frobenius += gram[i * n + j] ** 2;
+    }
+  }
+  const step = 1 / Math.max(1e-6, Math.sqrt(frobenius));
+
+  const c = new Float64Array(n);
+  const prev = new Float64Array(n);
+  const y = new Float64Array(n);
+  const rhs = new Float64Array(n);
+
+  const solve = (target: Vec3, out: Float32Array, offset: number) => {
+    const b = [target[0] - garment[0], target[1] - garment[1], target[2] - garment[2]];
+    for (let i = 0; i < n; i++) {
+      rhs[i] = columns[i][0] * b[0] + columns[i][1] * b[1] + columns[i][2] * b[2];
+      c[i] = 0;
+      y[i] = 0;
+    }
+
+    let momentum = 1;
+    for (let iter = 0; iter < ITERATIONS; iter++) {
+      prev.set(c);
+      for (let i = 0; i < n; i++) {
+        let grad = -rhs[i];
+        for (let j = 0; j < n; j++) grad += gram[i * n + j] * y[j];
+        c[i] = y[i] - step * grad;
+      }
+      projectCoverage(c);
+
+      const next = (1 + Math.sqrt(1 + 4 * momentum * momentum)) / 2;
+      const beta = (momentum - 1) / next;
+      for (let i = 0; i < n; i++) y[i] = c[i] + beta * (c[i] - prev[i]);
+      momentum = next;
+    }
+
+    for (let i = 0; i < n; i++) out[offset + i] = c[i];
+  };
+
+  const lattice = new Float32Array(GRID_STEPS ** 3 * n);
+  const solved = new Uint8Array(GRID_STEPS ** 3);
+
+  const node = (ri: number, gi: number, bi: number): number => {
+    const idx = (ri * GRID_STEPS + gi) * GRID_STEPS + bi;
+    if (!solved[idx]) {
+      solve(
+        [srgbToLinear(ri * GRID_SPACING), srgbToLinear(gi * GRID_SPACING), srgbToLinear(bi * GRID_SPACING)],
+        lattice,
+        idx * n
+      );
+      solved[idx] = 1;
+    }
+    return idx * n;
+  };
+
+  const result = new Float32Array(n);
+
+  /**
+   * Coverage (0-1) of every ink for an 8-bit sRGB color. The returned array
+   * is reused between calls.
+   */
+  return (r: number, g: number, b: number): Float32Array => {
+    const fr = r / GRID_SPACING;
+    const fg = g / GRID_SPACING;
+    const fb = b / GRID_SPACING;
+    const r0 = Math.min(GRID_STEPS - 2, Math.floor(fr));
+    const g0 = Math.min(GRID_STEPS - 2, Math.floor(fg));
+    const b0 = Math.min(GRID_STEPS - 2, Math.floor(fb));
+    const tr = fr - r0;
+    const tg = fg - g0;
+    const tb = fb - b0;
+
+    result.fill(0);
+    for (let corner = 0; corner < 8; corner++) {
+      const dr = corner & 1;
+      const dg = (corner >> 1) & 1;
+      const db = (corner >> 2) & 1;
+      const w = (dr ? tr : 1 - tr) * (dg ? tg : 1 - tg) * (db ? tb : 1 - tb);
+      if (w === 0) continue;
+      const base = node(r0 + dr, g0 + dg, b0 + db);
+      for (let i = 0; i < n; i++) result[i] += w * lattice[base + i];
+    }
+    return result;
+  };
+};
@@ -0,0 +1,35 @@
+/*
+ * Reads pixels out of images one horizontal strip at a time, so decoding
+ * never needs a full-size ImageData. Uses OffscreenCanvas, which works both
+ * on the page and in the worker.
+ */
+
+// 256 rows keep a strip of even a 10k pixel wide image around 10 MB
+export const STRIP_ROWS = 256;
+
+/**
+ * 2D context of a canvas one strip tall, for reading pixels back often.
+ */
+export const stripContext = (width: number, rows: number): OffscreenCanvasRenderingContext2D => {
+  const ctx = new OffscreenCanvas(width, rows).getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Context failed');
+  return ctx;
+};
+
+/**
+ * The RGBA pixels of an image as strips of whole rows, top to bottom. Each
+ * strip is a fresh buffer the consumer may change.
+ */
+export const imageStrips = (image: CanvasImageSource & { width: number; height: number }): Iterable<Uint8ClampedArray> => ({
+  *[Symbol.iterator]() {
+    const { width, height } = image;
+    const ctx = stripContext(width, Math.min(STRIP_ROWS, height));
+
+    for (let y = 0; y < height; y += STRIP_ROWS) {
+      const rows = Math.min(STRIP_ROWS, height - y);
+      ctx.clearRect(0, 0, width, rows);
+      ctx.drawImage(image, 0, y, width, rows, 0, 0, width, rows);
+      yield ctx.getImageData(0, 0, width, rows).data;
+    }
+  }
+});
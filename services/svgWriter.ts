@@ -0,0 +1,60 @@
+import { TracedChannel, contourSegments } from './vectorTracer';
+
+export interface VectorChannel {
+  name: string;
+  colorHex: string;
+  traced: TracedChannel;
+}
+
+const MM_PER_INCH = 25.4;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmt = (n: number): string => String(Math.round(n * 100) / 100);
+
+const pathData = (traced: TracedChannel): string => {
+  const parts: string[] = [];
+  for (const contour of traced.contours) {
+    contourSegments(
+      contour,
+      traced.smooth,
+      p => parts.push(`M${fmt(p[0])} ${fmt(p[1])}`),
+      p => parts.push(`L${fmt(p[0])} ${fmt(p[1])}`),
+      (c, p) => parts.push(`Q${fmt(c[0])} ${fmt(c[1])} ${fmt(p[0])} ${fmt(p[1])}`)
+    );
+    parts.push('Z');
+  }
+  return parts.join('');
+};
+
+/**
+ * Writes all traced channels into one SVG, each as a named layer filled with
+ * its ink color. The document is sized in millimetres from the output DPI so
+ * it imports at true print size.
+ */
+export const writeSvg = (channels: VectorChannel[], dpi: number): Blob => {
+  if (channels.length === 0) throw new Error('No channels to export');
+  const { width, height } = channels[0].traced;
+  const widthMm = (width / dpi) * MM_PER_INCH;
+  const heightMm = (height / dpi) * MM_PER_INCH;
+
+  const layers = channels.map((c, idx) => {
+    const label = escapeXml(c.name);
+    return `  <g id="channel-${idx + 1}" inkscape:groupmode="layer" inkscape:label="${label}">\n` +
+      `    <title>${label}</title>\n` +
+      `    <path d="${pathData(c.traced)}" fill="${c.colorHex}" fill-rule="evenodd"/>\n` +
+      `  </g>`;
+  });
+
+  const svg = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+      `width="${fmt(widthMm)}mm" height="${fmt(heightMm)}mm" viewBox="0 0 ${width} ${height}">`,
+    ...layers,
+    '</svg>',
+    ''
+  ].join('\n');
+
+  return new Blob([svg], { type: 'image/svg+xml' });
+};
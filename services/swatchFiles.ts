@@ -0,0 +1,243 @@
+import { Ink } from '../types';
+import { Lab, hexToRgb, labD50ToD65, labD65ToD50, labToRgb, rgbToHex, rgbToLab } from './colorScience';
+import { createByteWriter } from './byteWriter';
+import { createInk } from './inkLibrary';
+
+/*
+ * Palette exchange with other design tools: Adobe Swatch Exchange (.ase),
+ * Photoshop color swatches (.aco) and GIMP palettes (.gpl).
+ */
+
+export type SwatchFormat = 'ase' | 'aco' | 'gpl';
+
+export const SWATCH_EXTENSIONS = ['.ase', '.aco', '.gpl'];
+
+const ASE_COLOR = 0x0001;
+const ASE_SPOT = 1;
+
+const ACO_RGB = 0;
+const ACO_HSB = 1;
+const ACO_CMYK = 2;
+const ACO_LAB = 7;
+const ACO_GRAY = 8;
+
+const cmykToRgb = (c: number, m: number, y: number, k: number): [number, number, number] => [
+  255 * (1 - c) * (1 - k),
+  255 * (1 - m) * (1 - k),
+  255 * (1 - y) * (1 - k)
+];
+
+const hsbToRgb = (h: number, s: number, v: number): [number, number, number] => {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return 255 * v * (1 - s * Math.max(0, Math.min(k, 4 - k, 1)));
+  };
+  return [f(5), f(3), f(1)];
+};
+
+const inkFromRgb = (name: string, rgb: [number, number, number]): Ink =>
+  createInk(name, rgbToHex(...rgb), rgbToLab(...rgb));
+
+// Swatch files store Lab under D50; the library keeps it under D65
+const inkFromLab = (name: string, labD50: Lab): Ink => {
+  const lab = labD50ToD65(labD50);
+  return createInk(name, rgbToHex(...labToRgb(lab)), lab);
+};
+
+// Big-endian reader over a swatch file
+const createByteReader = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let pos = 0;
+  const u16 = () => { pos += 2; return view.getUint16(pos - 2); };
+  return {
+    get pos() { return pos; },
+    get remaining() { return view.byteLength - pos; },
+    seek: (to: number) => { pos = to; },
+    u16,
+    u32: () => { pos += 4; return view.getUint32(pos - 4); },
+    f32: () => { pos += 4; return view.getFloat32(pos - 4); },
+    ascii: (length: number) => {
+      let text = '';
+      for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(pos++));
+      return text;
+    },
+    // UTF-16BE string of `length` code units, the last of which may be a terminating zero
+    utf16: (length: number) => {
+      let text = '';
+      for (let i = 0; i < length; i++) text += String.fromCharCode(u16());
+      return text.replace(/\0+$/, '');
+    }
+  };
+};
+
+const readAse = (buffer: ArrayBuffer): Ink[] => {
+  const r = createByteReader(buffer);
+  if (r.ascii(4) !== 'ASEF') throw new Error('Not an ASE file');
+  r.u32(); // Version 1.0
+
+  const inks: Ink[] = [];
+  const blocks = r.u32();
+  for (let b = 0; b < blocks && r.remaining >= 6; b++) {
+    const type = r.u16();
+    const length = r.u32();
+    const end = r.pos + length;
+    if (type === ASE_COLOR) {
+      const name = r.utf16(r.u16());
+      const model = r.ascii(4);
+      if (model === 'RGB ') {
+        inks.push(inkFromRgb(name, [r.f32() * 255, r.f32() * 255, r.f32() * 255]));
+      } else if (model === 'CMYK') {
+        inks.push(inkFromRgb(name, cmykToRgb(r.f32(), r.f32(), r.f32(), r.f32())));
+      } else if (model === 'LAB ') {
+        inks.push(inkFromLab(name, [r.f32() * 100, r.f32(), r.f32()]));
+      } else if (model === 'Gray') {
+        const v = r.f32() * 255;
+        inks.push(inkFromRgb(name, [v, v, v]));
+      }
+    }
+    r.seek(end); // Skips group markers and anything not understood
+  }
+  return inks;
+};
+
+/**
+ * ASE with every ink as a spot color defined in Lab (D50), the ink's own measure.
+ */
+const writeAse = (inks: Ink[]): Uint8Array => {
+  const w = createByteWriter();
+  w.ascii('ASEF');
+  w.u16(1); w.u16(0);
+  w.u32(inks.length);
+  for (const ink of inks) {
+    w.u16(ASE_COLOR);
+    w.u32(2 + (ink.name.length + 1) * 2 + 4 + 3 * 4 + 2);
+    w.u16(ink.name.length + 1);
+    w.utf16(ink.name);
+    const lab = labD65ToD50(ink.lab);
+    w.ascii('LAB ');
+    w.f32(lab[0] / 100); w.f32(lab[1]); w.f32(lab[2]);
+    w.u16(ASE_SPOT);
+  }
+  return w.toArray();
+};
+
+// One 10-byte ACO color record
+const readAcoColor = (r: ReturnType<typeof createByteReader>, name: string): Ink | null => {
+  const space = r.u16();
+  const w = r.u16();
+  const x = r.u16();
+  const y = r.u16();
+  const z = r.u16();
+  switch (space) {
+    case ACO_RGB: return inkFromRgb(name, [w / 257, x / 257, y / 257]);
+    case ACO_HSB: return inkFromRgb(name, hsbToRgb((w / 65535) * 360, x / 65535, y / 65535));
+    // CMYK components are stored inverted: 0 = full ink
+    case ACO_CMYK: return inkFromRgb(name, cmykToRgb(1 - w / 65535, 1 - x / 65535, 1 - y / 65535, 1 - z / 65535));
+    // a and b are signed, all three scaled by 100
+    case ACO_LAB: return inkFromLab(name, [w / 100, ((x << 16) >> 16) / 100, ((y << 16) >> 16) / 100]);
+    case ACO_GRAY: {
+      const v = 255 * (1 - w / 10000);
+      return inkFromRgb(name, [v, v, v]);
+    }
+    default: return null;
+  }
+};
+
+const readAco = (buffer: ArrayBuffer): Ink[] => {
+  const r = createByteReader(buffer);
+  if (r.u16() !== 1) throw new Error('Not an ACO file');
+  const count = r.u16();
+  const unnamed: Ink[] = [];
+  for (let i = 0; i < count; i++) {
+    const ink = readAcoColor(r, `Цвет ${i + 1}`);
+    if (ink) unnamed.push(ink);
+  }
+
+  // Version 2 repeats the colors with names
+  if (r.remaining < 4 || r.u16() !== 2) return unnamed;
+  const named: Ink[] = [];
+  const count2 = r.u16();
+  for (let i = 0; i < count2; i++) {
+    const start = r.pos;
+    r.seek(start + 10);
+    const name = r.utf16(r.u32());
+    const end = r.pos;
+    r.seek(start);
+    const ink = readAcoColor(r, name);
+    r.seek(end);
+    if (ink) named.push(ink);
+  }
+  return named;
+};
+
+/**
+ * ACO in Lab (D50), with the unnamed version 1 section older readers expect
+ * followed by the named version 2 section.
+ */
+const writeAco = (inks: Ink[]): Uint8Array => {
+  const w = createByteWriter();
+  const color = (ink: Ink) => {
+    const lab = labD65ToD50(ink.lab);
+    w.u16(ACO_LAB);
+    w.u16(Math.round(lab[0] * 100));
+    w.u16(Math.round(lab[1] * 100) & 0xffff);
+    w.u16(Math.round(lab[2] * 100) & 0xffff);
+    w.u16(0);
+  };
+
+  w.u16(1);
+  w.u16(inks.length);
+  inks.forEach(color);
+  w.u16(2);
+  w.u16(inks.length);
+  for (const ink of inks) {
+    color(ink);
+    w.u32(ink.name.length + 1);
+    w.utf16(ink.name);
+  }
+  return w.toArray();
+};
+
+const readGpl = (text: string): Ink[] => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith('GIMP Palette')) throw new Error('Not a GIMP palette');
+
+  const inks: Ink[] = [];
+  for (const line of lines.slice(1)) {
+    const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/);
+    if (!match) continue; // Name, Columns, comments
+    const rgb: [number, number, number] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    inks.push(inkFromRgb(match[4].trim() || rgbToHex(...rgb), rgb));
+  }
+  return inks;
+};
+
+const writeGpl = (inks: Ink[]): string => {
+  const lines = ['GIMP Palette', 'Name: Ink library', 'Columns: 8', '#'];
+  for (const ink of inks) {
+    const [r, g, b] = hexToRgb(ink.hex);
+    lines.push(`${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${ink.name}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Reads inks from a swatch file, picking the format by extension.
+ */
+export const readSwatchFile = async (file: File): Promise<Ink[]> => {
+  const ext = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  switch (ext) {
+    case '.ase': return readAse(await file.arrayBuffer());
+    case '.aco': return readAco(await file.arrayBuffer());
+    case '.gpl': return readGpl(await file.text());
+    default: throw new Error(`Unsupported swatch file: ${file.name}`);
+  }
+};
+
+export const writeSwatchFile = (inks: Ink[], format: SwatchFormat): Blob => {
+  switch (format) {
+    case 'ase': return new Blob([writeAse(inks)], { type: 'application/octet-stream' });
+    case 'aco': return new Blob([writeAco(inks)], { type: 'application/octet-stream' });
+    case 'gpl': return new Blob([writeGpl(inks)], { type: 'text/plain' });
+  }
+};
@@ -0,0 +1,147 @@
+import { ChannelRaster } from '../types';
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const ASCII = 2;
+const RATIONAL = 5;
+
+const TYPE_SIZE: Record<number, number> = { [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  values: number[] | Uint8Array; // Uint8Array for ASCII payloads
+}
+
+const textValue = (text: string): Uint8Array => {
+  const bytes = new TextEncoder().encode(text);
+  const out = new Uint8Array(bytes.length + 1); // NUL terminated
+  out.set(bytes);
+  return out;
+};
+
+const entryCount = (e: IfdEntry): number =>
+  e.type === RATIONAL ? e.values.length / 2 : e.values.length;
+
+const writeValues = (view: DataView, offset: number, e: IfdEntry) => {
+  if (e.type === ASCII) {
+    (e.values as Uint8Array).forEach((b, i) => view.setUint8(offset + i, b));
+    return;
+  }
+  const values = e.values as number[];
+  values.forEach((v, i) => {
+    if (e.type === SHORT) view.setUint16(offset + i * 2, v, true);
+    else view.setUint32(offset + i * 4, v, true);
+  });
+};
+
+/**
+ * Serializes one IFD plus the out-of-line values it references.
+ * `start` is the absolute file offset the block will be written at and
+ * `nextIfd` the offset of the following page (0 for the last one).
+ */
+const buildIfd = (entries: IfdEntry[], start: number, nextIfd: number): Uint8Array => {
+  entries.sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + entries.length * 12 + 4;
+
+  let extraSize = 0;
+  for (const e of entries) {
+    const size = entryCount(e) * TYPE_SIZE[e.type];
+    if (size > 4) extraSize += size + (size % 2);
+  }
+
+  const buffer = new ArrayBuffer(tableSize + extraSize);
+  const view = new DataView(buffer);
+  view.setUint16(0, entries.length, true);
+
+  let extraOffset = tableSize;
+  entries.forEach((e, idx) => {
+    const pos = 2 + idx * 12;
+    const size = entryCount(e) * TYPE_SIZE[e.type];
+    view.setUint16(pos, e.tag, true);
+    view.setUint16(pos + 2, e.type, true);
+    view.setUint32(pos + 4, entryCount(e), true);
+    if (size <= 4) {
+      writeValues(view, pos + 8, e);
+    } else {
+      view.setUint32(pos + 8, start + extraOffset, true);
+      writeValues(view, extraOffset, e);
+      extraOffset += size + (size % 2);
+    }
+  });
+
+  view.setUint32(tableSize - 4, nextIfd, true);
+  return new Uint8Array(buffer);
+};
+
+interface TiffPage {
+  channel: Omit<ChannelRaster, 'strips'>;
+  ifdStart: number;
+  dataStart: number;
+  data: Blob;
+}
+
+const pageEntries = (
+  c: Omit<ChannelRaster, 'strips'>,
+  page: number,
+  total: number,
+  stripOffset: number,
+  dpi: number
+): IfdEntry[] => [
+  { tag: 254, type: LONG, values: [2] }, // NewSubfileType: page of multi-page image
+  { tag: 256, type: LONG, values: [c.width] },
+  { tag: 257, type: LONG, values: [c.height] },
+  { tag: 258, type: SHORT, values: [8] },
+  { tag: 259, type: SHORT, values: [1] }, // No compression
+  { tag: 262, type: SHORT, values: [0] }, // WhiteIsZero
+  { tag: 270, type: ASCII, values: textValue(`Ink ${c.colorHex.toUpperCase()}`) },
+  { tag: 273, type: LONG, values: [stripOffset] },
+  { tag: 277, type: SHORT, values: [1] },
+  { tag: 278, type: LONG, values: [c.height] },
+  { tag: 279, type: LONG, values: [c.width * c.height] },
+  { tag: 282, type: RATIONAL, values: [Math.round(dpi), 1] },
+  { tag: 283, type: RATIONAL, values: [Math.round(dpi), 1] },
+  { tag: 284, type: SHORT, values: [1] },
+  { tag: 285, type: ASCII, values: textValue(c.name) },
+  { tag: 296, type: SHORT, values: [2] }, // Inches
+  { tag: 297, type: SHORT, values: [page, total] }
+];
+
+/**
+ * Writes a multi-page TIFF with one 8-bit grayscale page per separation.
+ * Pages use WhiteIsZero so the stored value is ink density directly; the
+ * channel name goes into PageName and the ink color into ImageDescription.
+ *
+ * Channels are read one at a time and strip by strip, each strip handed to
+ * the Blob before the next is requested; the IFDs, which need the page
+ * count, are filled in once every page is placed.
+ */
+export const writeMultiPageTiff = (channels: Iterable<ChannelRaster>, dpi: number): Blob => {
+  const header = new Uint8Array([0x49, 0x49, 42, 0, 8, 0, 0, 0]); // "II", magic, first IFD at 8
+  const pages: TiffPage[] = [];
+  let offset = header.length;
+
+  for (const { strips, ...channel } of channels) {
+    const byteCount = channel.width * channel.height;
+    // Image data is placed after this page's IFD; its size doesn't depend on the offsets
+    const ifdSize = buildIfd(pageEntries(channel, 0, 0, 0, dpi), offset, 0).length;
+    const dataStart = offset + ifdSize;
+    const dataPadded = byteCount + (byteCount % 2);
+
+    const data: Blob[] = [];
+    for (const strip of strips) data.push(new Blob([strip]));
+    if (byteCount % 2) data.push(new Blob([new Uint8Array(1)]));
+    pages.push({ channel, ifdStart: offset, dataStart, data: new Blob(data) });
+    offset = dataStart + dataPadded;
+  }
+  if (pages.length === 0) throw new Error('No channels to export');
+
+  const parts: BlobPart[] = [header];
+  pages.forEach((p, page) => {
+    const nextIfd = page < pages.length - 1 ? pages[page + 1].ifdStart : 0;
+    parts.push(buildIfd(pageEntries(p.channel, page, pages.length, p.dataStart, dpi), p.ifdStart, nextIfd), p.data);
+  });
+
+  return new Blob(parts, { type: 'image/tiff' });
+};
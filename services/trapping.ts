@@ -0,0 +1,58 @@
+import { TrapSettings } from '../types';
+import { hexToLab } from './colorScience';
+import { forEachDilatedRow } from './morphology';
+import type { SeparatedChannel } from './pixelPipeline';
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Trap width in pixels of a separation that prints at `ppi` pixels per inch.
+ */
+export const trapWidthPx = (trap: TrapSettings, ppi: number): number =>
+  Math.round(trap.unit === 'mm' ? (trap.width / MM_PER_INCH) * ppi : trap.width);
+
+/**
+ * Spreads every ink under the darker inks it touches, so misregistration on
+ * press shows a sliver of overlap instead of a gap of bare shirt.
+ *
+ * An ink only grows into areas already covered by a darker ink, never onto
+ * the shirt, and the darker ink is left as is. The underbase and opaque
+ * layers are not trapped.
+ *
+ * Densities are trapped in place, lightest ink first: an ink only reads the
+ * inks darker than itself, so each one is still untouched when read, and
+ * the spread is built a row at a time instead of as a second map.
+ */
+export const trapDensities = (
+  channels: SeparatedChannel[],
+  width: number,
+  height: number,
+  widthPx: number
+): SeparatedChannel[] => {
+  if (widthPx <= 0) return channels;
+
+  const inks = channels
+    .map(channel => ({ channel, lightness: hexToLab(channel.colorHex)[0] }))
+    .filter(ink => !ink.channel.isUnderbase && !ink.channel.opaque)
+    .sort((a, b) => b.lightness - a.lightness);
+  if (inks.length < 2) return channels;
+
+  inks.forEach(ink => {
+    const darker = inks.filter(other => other.lightness < ink.lightness).map(other => other.channel.density);
+    if (darker.length === 0) return;
+
+    const own = ink.channel.density;
+    forEachDilatedRow(own, width, height, widthPx, (spread, y) => {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        const i = row + x;
+        if (spread[x] <= own[i]) continue;
+        let cover = 0;
+        for (const d of darker) cover = Math.max(cover, d[i]);
+        own[i] = Math.max(own[i], Math.min(spread[x], cover));
+      }
+    });
+  });
+
+  return channels;
+};
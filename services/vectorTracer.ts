@@ -0,0 +1,178 @@
+import { TraceSettings } from '../types';
+
+export type Point = [number, number];
+
+export interface TracedChannel {
+  contours: Point[][]; // Closed outlines in pixel units; holes wind opposite to outer shapes
+  smooth: boolean;     // Render contours as quadratic curves through edge midpoints
+  width: number;
+  height: number;
+}
+
+// Direction vectors: right, down, left, up (y axis points down)
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+const polygonArea = (pts: Point[]): number => {
+  let area = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    area += (pts[j][0] + pts[i][0]) * (pts[j][1] - pts[i][1]);
+  }
+  return area / 2;
+};
+
+const perpendicularDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  return Math.abs(dy * p[0] - dx * p[1] + b[0] * a[1] - b[1] * a[0]) / len;
+};
+
+/**
+ * Ramer-Douglas-Peucker simplification of an open polyline.
+ */
+const simplifyPolyline = (pts: Point[], epsilon: number): Point[] => {
+  if (pts.length < 3) return pts;
+  const keep = new Uint8Array(pts.length);
+  keep[0] = 1;
+  keep[pts.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, pts.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = perpendicularDistance(pts[i], pts[start], pts[end]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > epsilon) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return pts.filter((_, i) => keep[i]);
+};
+
+/**
+ * Smooths a pixel staircase outline: corners are replaced by edge midpoints,
+ * which turns stairs into diagonals, then the result is simplified.
+ */
+const smoothContour = (pts: Point[], epsilon: number): Point[] => {
+  const mids: Point[] = pts.map((p, i) => {
+    const q = pts[(i + 1) % pts.length];
+    return [(p[0] + q[0]) / 2, (p[1] + q[1]) / 2];
+  });
+  // Close the ring for RDP, then drop the duplicated end point
+  const simplified = simplifyPolyline([...mids, mids[0]], epsilon);
+  simplified.pop();
+  return simplified.length >= 3 ? simplified : mids;
+};
+
+/**
+ * Traces the outlines of every region whose density reaches the threshold.
+ *
+ * Boundaries follow pixel edges with the inked pixel always on the right, so
+ * outer shapes come out clockwise and holes counter-clockwise; diagonal-only
+ * contacts are kept apart. Contours smaller than minArea (in px²) are dropped,
+ * which also removes any holes they contained.
+ */
+export const traceDensity = (
+  density: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: TraceSettings
+): TracedChannel => {
+  const inked = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && density[y * width + x] >= settings.threshold;
+
+  // Bit per pixel side (top, right, bottom, left) already consumed by a contour
+  const visited = new Uint8Array(width * height);
+
+  // The pixel and side to the right of an edge leaving (vx, vy) in direction d
+  const edgePixel = (vx: number, vy: number, d: number): [number, number, number] => {
+    switch (d) {
+      case 0: return [vx, vy, 0];
+      case 1: return [vx - 1, vy, 1];
+      case 2: return [vx - 1, vy - 1, 2];
+      default: return [vx, vy - 1, 3];
+    }
+  };
+
+  const traceFrom = (startX: number, startY: number, startDir: number): Point[] => {
+    const pts: Point[] = [];
+    let vx = startX;
+    let vy = startY;
+    let d = startDir;
+
+    do {
+      const [px, py, side] = edgePixel(vx, vy, d);
+      visited[py * width + px] |= 1 << side;
+      vx += DX[d];
+      vy += DY[d];
+
+      // Pixels ahead of the vertex, to the right and left of the travel direction
+      const rx = vx + (DX[d] - DY[d] - 1) / 2;
+      const ry = vy + (DY[d] + DX[d] - 1) / 2;
+      const lx = vx + (DX[d] + DY[d] - 1) / 2;
+      const ly = vy + (DY[d] - DX[d] - 1) / 2;
+
+      let next = d;
+      if (!inked(rx, ry)) next = (d + 1) % 4;
+      else if (inked(lx, ly)) next = (d + 3) % 4;
+
+      if (next !== d) pts.push([vx, vy]);
+      d = next;
+    } while (vx !== startX || vy !== startY || d !== startDir);
+
+    return pts;
+  };
+
+  const raw: Point[][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inked(x, y)) continue;
+      if (!inked(x, y - 1) && !(visited[y * width + x] & 1)) raw.push(traceFrom(x, y, 0));
+      if (!inked(x + 1, y) && !(visited[y * width + x] & 2)) raw.push(traceFrom(x + 1, y, 1));
+      if (!inked(x, y + 1) && !(visited[y * width + x] & 4)) raw.push(traceFrom(x + 1, y + 1, 2));
+      if (!inked(x - 1, y) && !(visited[y * width + x] & 8)) raw.push(traceFrom(x, y + 1, 3));
+    }
+  }
+
+  const smooth = settings.smoothing > 0;
+  const contours = raw
+    .filter(pts => pts.length >= 3 && Math.abs(polygonArea(pts)) >= settings.minArea)
+    .map(pts => (smooth ? smoothContour(pts, settings.smoothing * 0.5) : pts));
+
+  return { contours, smooth, width, height };
+};
+
+/**
+ * Walks a traced contour as drawing commands. Smooth contours become a chain
+ * of quadratic curves with the vertices as control points and the midpoints
+ * between them as on-curve points.
+ */
+export const contourSegments = (
+  pts: Point[],
+  smooth: boolean,
+  moveTo: (p: Point) => void,
+  lineTo: (p: Point) => void,
+  quadTo: (control: Point, end: Point) => void
+) => {
+  if (!smooth) {
+    moveTo(pts[0]);
+    for (let i = 1; i < pts.length; i++) lineTo(pts[i]);
+    return;
+  }
+
+  const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  moveTo(mid(pts[pts.length - 1], pts[0]));
+  for (let i = 0; i < pts.length; i++) {
+    quadTo(pts[i], mid(pts[i], pts[(i + 1) % pts.length]));
+  }
+};
@@ -1,19 +1,54 @@
 export enum SeparationMode {
   CMYK = 'CMYK',
-  SPOT = 'SPOT'
+  SPOT = 'SPOT',
+  INDEX = 'INDEX', // Spot inks, each pixel printed by its nearest ink only
+  SIMULATED_PROCESS = 'SIMULATED_PROCESS' // Opaque spot inks mixed by coverage over a dark garment
 }
 
 export interface SpotColor {
   id: string;
   name: string;
   color: string; // Hex code
-  threshold: number; // 0-100 sensitivity
+  threshold: number; // Matching tolerance in ΔE units (per ProcessingConfig.colorMetric)
+  inkId?: string;    // Library ink the color was picked from
 }
 
+// A mixed ink in the shop's ink library
+export interface Ink {
+  id: string;
+  name: string;
+  hex: string;                   // Screen color
+  lab: [number, number, number]; // CIE Lab (D65), measured or derived from `hex`
+  opacity?: number;              // 0-100%, how well the ink covers what's under it
+  mesh?: number;                 // Recommended mesh count (threads per inch)
+}
+
+export type ColorMetric = 'de76' | 'de94' | 'de2000';
+
 export interface ChannelResult {
   name: string;
-  dataUrl: string; // Base64 image
+  density: Uint8ClampedArray; // Row-major, 0 = no ink, 255 = full ink
+  width: number;
+  height: number;
   colorHex: string; // Representative color for UI
+  screenAngle: number; // Halftone screen angle in degrees
+  lpi: number;         // Halftone screen ruling
+  isUnderbase?: boolean; // White base printed beneath all other inks
+  opaque?: boolean;      // Covers what is below instead of filtering it (e.g. highlight white)
+  inkId?: string;        // Library ink the channel prints with
+}
+
+// The part of a channel the file writers need, its density as strips of whole rows, top to bottom
+export type ChannelRaster = Pick<ChannelResult, 'name' | 'colorHex' | 'width' | 'height'> & {
+  strips: Iterable<Uint8ClampedArray>;
+};
+
+// Phases of a separation run, reported as progress
+export type SeparationStage = 'adjust' | 'separate' | 'trap' | 'underbase';
+
+export interface SeparationProgress {
+  stage: SeparationStage;
+  fraction: number; // 0-1 within the stage
 }
 
 export type BgRemoveMode = 'white' | 'black' | 'custom' | 'auto';
@@ -28,9 +63,145 @@ export interface ImageAdjustments {
   bgThreshold: number;        // 0 to 100 (Sensitivity)
 }
 
+export type HalftoneMethod = 'none' | 'am' | 'fm';
+
+export type DotShape = 'round' | 'ellipse' | 'square';
+
+export interface HalftoneSettings {
+  method: HalftoneMethod; // none = continuous tone, am = dot screen, fm = stochastic
+  dotShape: DotShape;     // AM only
+  dpi: number;            // Output device resolution the film is imaged at
+}
+
+export interface FilmLayoutSettings {
+  enabled: boolean;
+  marginMm: number;           // Border added around the artwork on every side
+  registrationMarks: boolean;
+  cropMarks: boolean;
+  stepWedge: boolean;         // 0-100% density control strip
+  label: boolean;             // Job, channel, ink and print order caption
+}
+
+export interface TraceSettings {
+  threshold: number; // Density 0-255 at which a pixel counts as inked
+  smoothing: number; // 0 = exact pixel outline, higher = smoother, simpler curves
+  minArea: number;   // Shapes smaller than this (px²) are discarded as noise
+}
+
+export interface IndexSettings {
+  antiAlias: boolean;        // Soften the stair-stepped edges between inks
+  overprintTolerance: number; // ΔE margin within which the runner-up ink also prints; 0 = strictly one ink
+}
+
+export interface SimProcessSettings {
+  highlightChoke: number; // Pixels the highlight white is pulled back from its edges
+}
+
+export interface IccProfile {
+  name: string;       // Profile description
+  colorSpace: string; // Data color space signature, e.g. 'CMYK'
+  pcs: string;        // Profile connection space: 'Lab ' or 'XYZ '
+  version: number;    // Major version (2 or 4)
+  data: Uint8Array;   // Raw profile bytes, parsed on use
+}
+
+// ICC rendering intents selecting the B2A0 / B2A1 / B2A2 tag
+export type RenderingIntent = 0 | 1 | 2;
+
+export type BlackGeneration = 'gcr' | 'ucr';
+
+export interface CmykSettings {
+  blackGeneration: BlackGeneration; // GCR replaces gray in every color, UCR only in neutrals
+  blackAmount: number;              // 0-100% of the gray component moved to black
+  blackStart: number;               // 0-100% gray level where black begins
+  totalInkLimit: number;            // Maximum C+M+Y+K coverage in percent
+  renderingIntent: RenderingIntent; // Used when an ICC profile is selected
+}
+
+export interface UnderbaseSettings {
+  choke: number;              // Pixels the base is pulled in from the edges; negative spreads it
+  darkPullback: number;       // 0-100% less white under the darkest colors
+  maxDensity: number;         // 0-100% overall strength of the base
+  highlightWhite: boolean;    // Add a second white, printed last, over the brightest areas
+  highlightThreshold: number; // 0-100% luminance where the highlight white starts
+}
+
+export interface GarmentKnockout {
+  enabled: boolean;
+  tolerance: number; // ΔE within which the image counts as bare shirt and prints no ink
+  softness: number;  // ΔE over which ink fades back in beyond the tolerance
+}
+
+export type TrapUnit = 'px' | 'mm';
+
+export interface TrapSettings {
+  enabled: boolean;
+  width: number;  // How far lighter inks spread under darker ones
+  unit: TrapUnit; // mm are converted at the resolution the image prints at (printWidthCm)
+}
+
+// Ink use of one channel over the printed area, all in percent
+export interface InkCoverage {
+  coverage: number;    // Share of the area that gets any ink
+  meanDensity: number; // Average ink over the whole area
+  maxDensity: number;
+}
+
+export interface InkCostSettings {
+  pricePerKg: number; // Ink price per kilogram
+  mesh: number;       // Threads per inch for every screen; 0 = each channel's suggested mesh
+}
+
+// Size of the artwork on the shirt
+export interface PrintSize {
+  widthCm: number;
+  heightCm: number;
+}
+
+export interface InkEstimate extends InkCoverage {
+  mesh: number;
+  grams: number; // Ink laid down per print
+  cost: number;  // Price of that ink
+}
+
 export interface ProcessingConfig {
   mode: SeparationMode;
   spotColors: SpotColor[];
   includeWhiteBase?: boolean;
+  underbase: UnderbaseSettings;
   adjustments: ImageAdjustments;
-}
\ No newline at end of file
+  garmentColor: string; // Shirt color the job is printed on
+  knockout: GarmentKnockout;
+  lpi: number; // Screen ruling assigned to every output channel
+  printWidthCm: number; // Width of the artwork on the shirt; sets the resolution the image prints at
+  colorMetric: ColorMetric; // Color difference formula used for spot matching
+  index: IndexSettings;
+  trap: TrapSettings; // Spot and index modes
+  simProcess: SimProcessSettings;
+  cmyk: CmykSettings;
+  iccProfile: IccProfile | null; // Output profile driving CMYK; null = built-in conversion
+}
+
+export interface JobOutputSettings {
+  halftone: HalftoneSettings;
+  filmLayout: FilmLayoutSettings;
+  trace: TraceSettings;
+  inkCost: InkCostSettings;
+}
+
+// Everything needed to reopen a job in Step 2
+export interface SeparationJob {
+  name: string;
+  image: string;       // Original upload as a data URL
+  mask: string | null; // Painted mask as a PNG data URL; null = nothing painted
+  config: ProcessingConfig;
+  output: JobOutputSettings;
+}
+
+// Entry of the local project library
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number; // Epoch milliseconds of the last save
+  thumbnail: Blob;
+}